@@ -1,5 +1,4 @@
-import * as tractVTK from './lib/vtk-loaders.js'
-import * as tract from './lib/nvtract-loaders.js'
+import { readTractogram } from './lib/tractogram-reader.js'
 import * as fs from 'fs'
 async function main() {
   let argv = process.argv.slice(2)
@@ -25,37 +24,35 @@ async function main() {
   }
   // Determine if silent mode is enabled
   let isSilent = flags.has('-s')
-  let re = /(?:\.([^.]+))?$/
-  let ext = re.exec(fnm)[1]
-  ext = ext.toUpperCase()
-  if (ext === 'GZ') {
-    ext = re.exec(fnm.slice(0, -3))[1] // img.trk.gz -> img.trk
-    ext = ext.toUpperCase()
-  }
   let obj = []
   let d = Date.now()
   let nrepeats = 11 //11 iterations, ignore first
   for (let i = 0; i < nrepeats; i++) {
     if (i == 1) d = Date.now() //ignore first run for interpretting/disk
     const buf = fs.readFileSync(fnm).buffer
-    if (ext === 'TCK') obj = tract.readTCK(buf)
-    else if (ext === 'TT') obj = await tract.readTT(buf)
-    else if (ext === 'FIB' || ext === 'VTK') obj = tractVTK.readVTK(buf)
-    else if (ext === 'TRK') obj = await tract.readTRK(buf)
-    else obj = await tract.readTRX(buf)
+    obj = await readTractogram(buf, fnm)
   }
   let ms = Date.now() - d
   //find file size:
   let dat = fs.readFileSync(fnm)
   console.log(`${fnm}\tSize\t${dat.length}\tTime\t${ms}`)
   if (!isSilent) {
+    console.log('Format: ' + obj.format)
     console.log('Vertices:' + obj.pts.length / 3)
     console.log(' First vertex (x,y,z):' + obj.pts[0] + ',' + obj.pts[1] + ',' + obj.pts[2])
     console.log('Streamlines: ' + (obj.offsetPt0.length - 1)) //-1 due to fence post
     console.log(' Vertices in first streamline: ' + (obj.offsetPt0[1] - obj.offsetPt0[0]))
+    if (obj.hasOwnProperty('groups')) {
+      const names = Object.keys(obj.groups)
+      console.log('groups items: ' + names.length)
+      for (const name of names) console.log("  '" + name + "' streamlines: " + obj.groups[name].length)
+    }
     if (obj.hasOwnProperty('dpg')) {
-      console.log('dpg (data_per_group) items: ' + obj.dpg.length)
-      for (let i = 0; i < obj.dpg.length; i++) console.log("  '" + obj.dpg[i].id + "' items: " + obj.dpg[i].vals.length)
+      const names = Object.keys(obj.dpg)
+      console.log('dpg (data_per_group) items: ' + names.length)
+      for (const name of names)
+        for (let i = 0; i < obj.dpg[name].length; i++)
+          console.log("  '" + name + '/' + obj.dpg[name][i].id + "' items: " + obj.dpg[name][i].vals.length)
     }
     if (obj.hasOwnProperty('dps')) {
       console.log('dps (data_per_streamline) items: ' + obj.dps.length)
@@ -1,6 +1,36 @@
+export type TypedNumberArray =
+  | Float64Array
+  | Float32Array
+  | Uint32Array
+  | Uint16Array
+  | Uint8Array
+  | Int32Array
+  | Int16Array
+  | Int8Array
+
+// datatypes of TRX arrays, given by the filename extension
+export type TRXDtype =
+  | 'int8'
+  | 'int16'
+  | 'int32'
+  | 'int64'
+  | 'uint8'
+  | 'uint16'
+  | 'uint32'
+  | 'uint64'
+  | 'float16'
+  | 'float32'
+  | 'float64'
+
+// vals are Float32Array unless read with preserveDtype
+// dtype is the datatype in the file, e.g. float16 values are decoded to a Float32Array
+// and 64-bit integers to a Float64Array (exact up to 2^53)
 export type ValuesArray = Array<{
   id: string
-  vals: Float32Array
+  vals: TypedNumberArray
+  dtype?: TRXDtype
+  // values per vertex, streamline or group, e.g. 3 for RGB colors (1 if not set)
+  nComponents?: number
   global_min?: number
   global_max?: number
   cal_min?: number
@@ -18,28 +48,234 @@ export type AnyNumberArray =
   | Int16Array
   | Int8Array
 
+// offsetPt0[i] is the first vertex of streamline i, followed by a fence post that is the number of vertices
+// Uint32Array unless offsets exceed 4294967295, Float64Array is exact up to 2^53
+export type Offsets = Uint32Array | Float64Array
+
 export type TT = {
   pts: Float32Array
-  offsetPt0: Uint32Array
+  offsetPt0: Offsets
+}
+
+// indices of the streamlines that belong to each named group
+export type TRXGroups = Record<string, Uint32Array>
+
+// data_per_group: the metrics of each named group
+export type TRXDataPerGroup = Record<string, ValuesArray>
+
+// TRX header.json, VOXEL_TO_RASMM is a row-major 4x4 matrix
+export type TRXHeader = {
+  DIMENSIONS: [number, number, number]
+  VOXEL_TO_RASMM: number[][]
+  NB_VERTICES: number
+  NB_STREAMLINES: number
+  [key: string]: unknown
 }
 
 export type TRX = {
   pts: Float32Array
-  offsetPt0: Uint32Array
-  dpg: ValuesArray
+  offsetPt0: Offsets
+  groups: TRXGroups
+  dpg: TRXDataPerGroup
   dps: ValuesArray
   dpv: ValuesArray
-  header: unknown
+  header: TRXHeader
+}
+
+// TRX archive indexed by openTRX: the header is parsed, arrays are only decoded when requested
+export type LazyTRX = {
+  header: TRXHeader
+  dpvNames: string[]
+  dpsNames: string[]
+  groupNames: string[]
+  dpgNames: Record<string, string[]>
+  readPositions: () => Promise<Float32Array>
+  readOffsets: () => Promise<Offsets>
+  // datatype of each array by its path in the archive, e.g. dpv/fa -> float16
+  dtypes: Record<string, TRXDtype>
+  // values per item of dpv, dps and dpg arrays, keyed like dtypes, e.g. dpv/colors -> 3
+  nComponents: Record<string, number>
+  readDpv: (id: string) => Promise<TypedNumberArray>
+  readDps: (id: string) => Promise<TypedNumberArray>
+  readGroup: (name: string) => Promise<Uint32Array>
+  readDpg: (group: string, id: string) => Promise<TypedNumberArray>
 }
 
 export type TRK = {
   pts: Float32Array
-  offsetPt0: Uint32Array
+  offsetPt0: Offsets
+  dps: ValuesArray
+  dpv: ValuesArray
+  header?: TRKHeader
+}
+
+// mrtrix key: value header, keys that appear more than once (e.g. command_history) are arrays
+export type MRtrixHeader = Record<string, string | string[]>
+
+// attributes of the AFNI niml.tract network element, e.g. N_tracts
+export type NIMLHeader = Record<string, string>
+
+// AFNI niml.tract streamlines, each bundle is a group
+export type NIML = {
+  pts: Float32Array
+  offsetPt0: Offsets
+  dps: ValuesArray
+  dpv: ValuesArray
+  groups: TRXGroups
+  header: NIMLHeader
+}
+
+// Camino BFLOAT streamlines, vertices are in mm as stored (not world space)
+export type BFLOAT = {
+  pts: Float32Array
+  offsetPt0: Offsets
+  // seed_index: vertex of each streamline where tracking started, if stored
+  dps: ValuesArray
+}
+
+export type BFLOATReadOptions = {
+  // whether each streamline stores the index of its seed point, detected if not set
+  hasSeedIndex?: boolean
+}
+
+// statistic of a VISTA Lab PDB file: aggregate values per streamline, and per vertex if isPerPoint
+export type PDBStatistic = {
+  name: string
+  localName: string
+  isPerPoint: boolean
+  isLuminanceEncoding: boolean
+  isViewable: boolean
+  uid: number
+}
+
+// VISTA Lab PDB header, transform is row-major and maps stored vertices to world space
+export type PDBHeader = {
+  version: number
+  transform: number[]
+  stats: PDBStatistic[]
+  algorithms: Array<{ name: string; comments: string; uid: number }>
+}
+
+export type PDB = {
+  pts: Float32Array
+  offsetPt0: Offsets
+  dps: ValuesArray
+  dpv: ValuesArray
+  header: PDBHeader
+}
+
+export type VTK = {
+  pts: Float32Array
+  offsetPt0: Offsets
   dps: ValuesArray
   dpv: ValuesArray
 }
 
 export type TCK = {
+  pts: Float32Array
+  offsetPt0: Offsets
+  header?: MRtrixHeader
+}
+
+export type TRXReadOptions = {
+  // arrays of stored (uncompressed) entries are views of the buffer rather than copies, where alignment allows
+  zeroCopy?: boolean
+  // dpv, dps and dpg keep the datatype of the file rather than being converted to Float32Array
+  preserveDtype?: boolean
+}
+
+// a problem found by validateTRX, entry is the name of the zip entry at fault ('' for the archive itself)
+export type TRXDiagnostic = {
+  severity: 'error' | 'warning'
+  entry: string
+  message: string
+}
+
+// isValid is false if there are any errors, warnings do not prevent a file from being read
+export type TRXValidation = {
+  isValid: boolean
+  diagnostics: TRXDiagnostic[]
+}
+
+export type TRXWriteOptions = {
+  positionDtype?: 'float16' | 'float32' | 'float64'
+  offsetDtype?: 'uint32' | 'uint64'
+  compress?: boolean
+}
+
+// TrackVis header fields, vox_to_ras is row-major as stored on disk
+// vox_to_ras is all zeros if it is not recorded (e.g. version 1 files)
+export type TRKHeader = {
+  dim: number[]
+  voxel_size: number[]
+  origin: number[]
+  vox_to_ras: number[]
+  voxel_order: string
+  image_orientation_patient: number[]
+  n_count: number
+  version: number
+}
+
+// mrtrix track scalar file, offsetPt0 matches the streamlines of the tck file
+export type TSF = {
+  offsetPt0: Offsets
+  dpv: ValuesArray
+  header?: MRtrixHeader
+}
+
+export type VTKWriteOptions = {
+  ascii?: boolean
+  layout?: 'classic' | 'offsets'
+}
+
+export type VTPWriteOptions = {
+  appended?: boolean
+}
+
+// streamlines from any supported format, as returned by readTractogram
+export type TractData = {
+  format: string
+  pts: Float32Array
+  offsetPt0: Offsets
+  dps?: ValuesArray
+  dpv?: ValuesArray
+  groups?: TRXGroups
+  dpg?: TRXDataPerGroup
+  header?: TRXHeader | TRKHeader | MRtrixHeader | NIMLHeader | PDBHeader
+}
+
+// a reader for readTractogram: detect() checks the first bytes of (decompressed) files
+export type TractLoader = {
+  format: string
+  extensions: string[]
+  detect?: (bytes: Uint8Array) => boolean
+  read: (buffer: ArrayBuffer) => Promise<Omit<TractData, 'format'>> | Omit<TractData, 'format'>
+}
+
+// file contents arriving in chunks, e.g. the body of a fetch() response
+export type TractSource = ReadableStream<Uint8Array> | AsyncIterable<Uint8Array>
+
+export type TractStreamProgress = {
+  // bytes received from the source, before decompression
+  bytesRead: number
+  streamlineCount: number
+  vertexCount: number
+}
+
+export type TractStreamOptions = {
+  // number of streamlines per batch
+  batchSize?: number
+  onProgress?: (progress: TractStreamProgress) => void
+}
+
+// complete streamlines from readTCKStream or readTRKStream
+// offsetPt0 includes the fence post and counts vertices from the start of the batch
+export type TractBatch = {
   pts: Float32Array
   offsetPt0: Uint32Array
+  dps: ValuesArray
+  dpv: ValuesArray
+  // index of the first streamline of the batch in the file
+  firstStreamline: number
+  header: TRKHeader | MRtrixHeader
 }
@@ -1,14 +1,50 @@
-import { TCK, TRK, TRX, TT, AnyNumberArray } from './nvmesh-types.js'
-import { NVUtilities, Zip } from './nvutilities.js'
+import {
+  BFLOAT,
+  BFLOATReadOptions,
+  LazyTRX,
+  MRtrixHeader,
+  NIML,
+  NIMLHeader,
+  PDB,
+  PDBStatistic,
+  TCK,
+  TRK,
+  TRKHeader,
+  TRX,
+  TRXDataPerGroup,
+  TRXDiagnostic,
+  TRXGroups,
+  TRXHeader,
+  TRXReadOptions,
+  TRXValidation,
+  TRXWriteOptions,
+  TractBatch,
+  TractSource,
+  TractStreamOptions,
+  TractStreamProgress,
+  TSF,
+  TT,
+  AnyNumberArray,
+  Offsets,
+  TRXDtype,
+  TypedNumberArray,
+  ValuesArray
+} from './nvmesh-types.js'
+import { NVUtilities, Zip, ZipWriter } from './nvutilities.js'
 import { mat4, vec4, vec3 } from 'gl-matrix'
 import { log } from './logger.js'
+import { decompressZstd, isZstd } from './zstd.js'
 
-// read mrtrix tck format streamlines
-// https://mrtrix.readthedocs.io/en/latest/getting_started/image_data.html#tracks-file-format-tck
-export function readTCK(buffer: ArrayBuffer): TCK {
+// read the text header shared by mrtrix tck and tsf files
+// returns the key: value pairs, the byte offset of the binary data and its datatype
+// keys that appear more than once (e.g. command_history) are returned as arrays
+function readMRtrixHeader(
+  buffer: ArrayBuffer,
+  signature: string
+): { offset: number; header: MRtrixHeader; isFloat64: boolean; isLittleEndian: boolean } {
   const len = buffer.byteLength
   if (len < 20) {
-    throw new Error('File too small to be TCK: bytes = ' + len)
+    throw new Error(`File too small to be ${signature}: bytes = ` + len)
   }
   const bytes = new Uint8Array(buffer)
   let pos = 0
@@ -26,45 +62,116 @@ export function readTCK(buffer: ArrayBuffer): TCK {
     }
     return new TextDecoder().decode(buffer.slice(startPos, pos - 1))
   }
-  let line = readStr() // 1st line: signature 'mrtrix tracks'
-  if (!line.includes('mrtrix tracks')) {
-    throw new Error('Not a valid TCK file')
+  let line = readStr() // 1st line: signature e.g. 'mrtrix tracks'
+  if (!line.includes(signature)) {
+    throw new Error(`Not a valid ${signature} file`)
   }
+  const header: MRtrixHeader = {}
   let offset = -1 // "file: offset" is REQUIRED
-  while (pos < len && !line.includes('END')) {
+  while (pos < len) {
     line = readStr()
-    if (line.toLowerCase().startsWith('file:')) {
-      offset = parseInt(line.split(' ').pop()!)
+    if (line.trim() === 'END') {
+      break
+    }
+    const colon = line.indexOf(':')
+    if (colon < 0) {
+      continue
+    }
+    const key = line.slice(0, colon).trim()
+    const val = line.slice(colon + 1).trim()
+    const prev = header[key]
+    if (prev === undefined) {
+      header[key] = val
+    } else if (Array.isArray(prev)) {
+      prev.push(val)
+    } else {
+      header[key] = [prev, val]
+    }
+    if (key.toLowerCase() === 'file') {
+      offset = parseInt(val.split(' ').pop()!)
     }
   }
   if (offset < 20) {
-    throw new Error('Not a valid TCK file (missing file offset)')
+    throw new Error(`Not a valid ${signature} file (missing file offset)`)
+  }
+  // datatype is required by the specification, but older files assume Float32LE
+  const datatype = typeof header.datatype === 'string' ? header.datatype : 'Float32LE'
+  if (!['Float32LE', 'Float32BE', 'Float64LE', 'Float64BE'].includes(datatype)) {
+    throw new Error(`Unsupported ${signature} datatype: ${datatype}`)
+  }
+  return {
+    offset,
+    header,
+    isFloat64: datatype.startsWith('Float64'),
+    isLittleEndian: datatype.endsWith('LE')
+  }
+}
+
+// MRtrix only pairs a tsf file with a tck file if both headers have the same timestamp
+// (seconds since the epoch): pass one value to writeTCK and writeTSF for files that belong together
+export function mrtrixTimestamp(): string {
+  return (Date.now() / 1000).toFixed(6)
+}
+
+// write the text header shared by mrtrix tck and tsf files
+// data begins at the returned length, which is padded for 4-byte alignment
+function writeMRtrixHeader(signature: string, header: MRtrixHeader): Uint8Array {
+  let lines = signature + '\n'
+  for (const key in header) {
+    if (key === 'file') {
+      continue // computed below
+    }
+    const vals = header[key]
+    for (const val of Array.isArray(vals) ? vals : [vals]) {
+      lines += `${key}: ${val}\n`
+    }
   }
-  pos = offset
+  const encoder = new TextEncoder()
+  const nbytes = encoder.encode(lines).length
+  let offset = 0
+  let txt = ''
+  // the header length depends on the number of digits of the offset it reports
+  do {
+    const len = nbytes + `file: . ${offset}\nEND\n`.length
+    offset = Math.ceil(len / 4) * 4
+    txt = `file: . ${offset}\nEND\n`
+  } while (Math.ceil((nbytes + txt.length) / 4) * 4 !== offset)
+  const arr = new Uint8Array(offset)
+  arr.set(encoder.encode(lines + txt))
+  return arr
+}
+
+// read mrtrix tck format streamlines
+// https://mrtrix.readthedocs.io/en/latest/getting_started/image_data.html#tracks-file-format-tck
+export function readTCK(buffer: ArrayBuffer): TCK {
+  const len = buffer.byteLength
+  const { offset, header, isFloat64, isLittleEndian } = readMRtrixHeader(buffer, 'mrtrix tracks')
+  let pos = offset
+  const bytesPerValue = isFloat64 ? 8 : 4
   const reader = new DataView(buffer)
   // read and transform vertex positions
   let npt = 0
-  // over-provision offset array to store number of segments
-  let offsetPt0 = new Uint32Array(len / (4 * 4))
-  let noffset = 0
+  // over-provision offset array to store number of segments: an empty streamline is a single NaN triplet
+  let offsetPt0 = new Uint32Array(Math.ceil(len / (3 * bytesPerValue)) + 1)
+  let noffset = 1
   // over-provision points array to store vertex positions
   let npt3 = 0
-  let pts = new Float32Array(len / 4)
+  let pts = new Float32Array(Math.ceil(len / 4))
   offsetPt0[0] = 0 // 1st streamline starts at 0
-  while (pos + 12 < len) {
-    const ptx = reader.getFloat32(pos, true)
-    pos += 4
-    const pty = reader.getFloat32(pos, true)
-    pos += 4
-    const ptz = reader.getFloat32(pos, true)
-    pos += 4
+  while (pos + 3 * bytesPerValue <= len) {
+    const ptx = isFloat64 ? reader.getFloat64(pos, isLittleEndian) : reader.getFloat32(pos, isLittleEndian)
+    pos += bytesPerValue
+    const pty = isFloat64 ? reader.getFloat64(pos, isLittleEndian) : reader.getFloat32(pos, isLittleEndian)
+    pos += bytesPerValue
+    const ptz = isFloat64 ? reader.getFloat64(pos, isLittleEndian) : reader.getFloat32(pos, isLittleEndian)
+    pos += bytesPerValue
     if (!isFinite(ptx)) {
       // both NaN and Infinity are not finite
-      offsetPt0[noffset++] = npt
       if (!isNaN(ptx)) {
         // terminate if infinity
         break
       }
+      offsetPt0[noffset++] = npt
     } else {
       pts[npt3++] = ptx
       pts[npt3++] = pty
@@ -72,102 +179,277 @@ export function readTCK(buffer: ArrayBuffer): TCK {
       npt++
     }
   }
+  // final streamline may not be followed by a NaN delimiter
+  if (offsetPt0[noffset - 1] !== npt) {
+    offsetPt0[noffset++] = npt
+  }
   // resize offset/vertex arrays that were initially over-provisioned
   pts = pts.slice(0, npt3)
   offsetPt0 = offsetPt0.slice(0, noffset)
   return {
     pts,
-    offsetPt0
+    offsetPt0,
+    header
   }
 } // readTCK()
 
-// not included in public docs
-// read trackvis trk format streamlines
-// http://trackvis.org/docs/?subsect=fileformat
-export async function readTRK(buffer: ArrayBuffer): Promise<TRK> {
-  // https://brain.labsolver.org/hcp_trk_atlas.html
-  // https://github.com/xtk/X/tree/master/io
-  // in practice, always little endian
-  let reader = new DataView(buffer)
-  let magic = reader.getUint32(0, true) // 'TRAC'
-  if (magic !== 1128354388) {
-    // e.g. TRK.gz
-    let raw
-    if (magic === 4247762216) {
-      // e.g. TRK.zstd
-      // raw = fzstd.decompress(new Uint8Array(buffer));
-      // raw = new Uint8Array(raw);
-      throw new Error('zstd TRK decompression is not supported')
+// write mrtrix tck format streamlines, returns the bytes of the file
+// each streamline is followed by a NaN delimiter and the file ends with Infinity
+// header key: value pairs (e.g. from readTCK) are preserved, except count, datatype and file
+// a timestamp is generated if the header has none, see mrtrixTimestamp()
+export function writeTCK(tck: TCK): Uint8Array {
+  const nvert = tck.pts.length / 3
+  const nstreamlines = tck.offsetPt0.length - 1
+  if (nstreamlines < 0 || tck.offsetPt0[nstreamlines] !== nvert) {
+    throw new Error('TCK offsetPt0 must end with the number of vertices (fence post)')
+  }
+  const hdr = writeMRtrixHeader('mrtrix tracks', {
+    timestamp: mrtrixTimestamp(),
+    ...tck.header,
+    count: `${nstreamlines}`,
+    datatype: 'Float32LE'
+  })
+  const nval = (nvert + nstreamlines + 1) * 3
+  const bytes = new Uint8Array(hdr.length + nval * 4)
+  bytes.set(hdr)
+  const f32 = new Float32Array(bytes.buffer, hdr.length, nval)
+  let i = 0
+  for (let s = 0; s < nstreamlines; s++) {
+    const start = tck.offsetPt0[s] * 3
+    const end = tck.offsetPt0[s + 1] * 3
+    f32.set(tck.pts.subarray(start, end), i)
+    i += end - start
+    f32.fill(NaN, i, i + 3)
+    i += 3
+  }
+  f32.fill(Infinity, i, i + 3)
+  return bytes
+} // writeTCK()
+
+// read mrtrix tsf format track scalar file, the per-vertex values of a tck file
+// https://mrtrix.readthedocs.io/en/latest/getting_started/image_data.html#track-scalar-file-format-tsf
+export function readTSF(buffer: ArrayBuffer, id: string = 'tsf'): TSF {
+  const len = buffer.byteLength
+  const { offset, header, isFloat64, isLittleEndian } = readMRtrixHeader(buffer, 'mrtrix track scalars')
+  let pos = offset
+  const bytesPerValue = isFloat64 ? 8 : 4
+  const reader = new DataView(buffer)
+  let nval = 0
+  // over-provision offset and value arrays
+  let offsetPt0 = new Uint32Array(Math.ceil(len / 4) + 1)
+  let noffset = 1
+  let vals = new Float32Array(Math.ceil(len / 4))
+  offsetPt0[0] = 0
+  while (pos + bytesPerValue <= len) {
+    const v = isFloat64 ? reader.getFloat64(pos, isLittleEndian) : reader.getFloat32(pos, isLittleEndian)
+    pos += bytesPerValue
+    if (!isFinite(v)) {
+      if (!isNaN(v)) {
+        break
+      }
+      offsetPt0[noffset++] = nval
     } else {
-      raw = await NVUtilities.decompress(new Uint8Array(buffer))
+      vals[nval++] = v
     }
-    buffer = raw.buffer
-    reader = new DataView(buffer)
-    magic = reader.getUint32(0, true) // 'TRAC'
   }
-  const vers = reader.getUint32(992, true) // 2
-  const hdr_sz = reader.getUint32(996, true) // 1000
-  if (vers > 2 || hdr_sz !== 1000 || magic !== 1128354388) {
+  if (offsetPt0[noffset - 1] !== nval) {
+    offsetPt0[noffset++] = nval
+  }
+  vals = vals.slice(0, nval)
+  offsetPt0 = offsetPt0.slice(0, noffset)
+  return {
+    offsetPt0,
+    dpv: [{ id, vals }],
+    header
+  }
+} // readTSF()
+
+// write mrtrix tsf format track scalar file, vals has one value per vertex of the matching tck
+// header (e.g. from readTSF) is preserved like writeTCK, give it the timestamp of the tck file
+export function writeTSF(offsetPt0: Offsets, vals: Float32Array, header: MRtrixHeader = {}): Uint8Array {
+  const nstreamlines = offsetPt0.length - 1
+  if (nstreamlines < 0 || offsetPt0[nstreamlines] !== vals.length) {
+    throw new Error(`TSF has ${vals.length} values but offsetPt0 expects ${offsetPt0[nstreamlines]}`)
+  }
+  const hdr = writeMRtrixHeader('mrtrix track scalars', {
+    timestamp: mrtrixTimestamp(),
+    ...header,
+    count: `${nstreamlines}`,
+    datatype: 'Float32LE'
+  })
+  const nval = vals.length + nstreamlines + 1
+  const bytes = new Uint8Array(hdr.length + nval * 4)
+  bytes.set(hdr)
+  const f32 = new Float32Array(bytes.buffer, hdr.length, nval)
+  let i = 0
+  for (let s = 0; s < nstreamlines; s++) {
+    const start = offsetPt0[s]
+    const end = offsetPt0[s + 1]
+    f32.set(vals.subarray(start, end), i)
+    i += end - start
+    f32[i++] = NaN
+  }
+  f32[i] = Infinity
+  return bytes
+} // writeTSF()
+
+// orientation of the voxel axes, e.g. 'LPS': the RAS axis (0..2) of each axis and if it is flipped
+function trkAxcodes(voxel_order: string): Array<{ axis: number; isFlipped: boolean }> | null {
+  const codes = []
+  for (const letter of voxel_order.toUpperCase()) {
+    const axis = 'RASLPI'.indexOf(letter)
+    if (axis < 0) {
+      return null
+    }
+    codes.push({ axis: axis % 3, isFlipped: axis > 2 })
+  }
+  if (codes.length !== 3 || new Set(codes.map((c) => c.axis)).size !== 3) {
+    return null
+  }
+  return codes
+}
+
+// voxel_order that matches a (row-major) vox_to_ras matrix
+function trkVoxelOrder(vox_to_ras: number[]): string {
+  let order = ''
+  for (let col = 0; col < 3; col++) {
+    let row = 0
+    for (let r = 1; r < 3; r++) {
+      if (Math.abs(vox_to_ras[r * 4 + col]) > Math.abs(vox_to_ras[row * 4 + col])) {
+        row = r
+      }
+    }
+    order += vox_to_ras[row * 4 + col] < 0 ? 'LPI'[row] : 'RAS'[row]
+  }
+  return order
+}
+
+// row-major matrix that maps TrackVis voxmm (voxel corner) coordinates to RAS mm
+// like nibabel, voxel_order is honored: axes are flipped when it disagrees with vox_to_ras
+// if vox_to_ras is not recorded (e.g. version 1) vox_to_ras is the voxel size, oriented by voxel_order
+function trkVoxmmToRASMM(header: Pick<TRKHeader, 'dim' | 'voxel_size' | 'vox_to_ras' | 'voxel_order'>): mat4 {
+  const vs = header.voxel_size
+  const zoomMat = mat4.fromValues(1 / vs[0], 0, 0, -0.5, 0, 1 / vs[1], 0, -0.5, 0, 0, 1 / vs[2], -0.5, 0, 0, 0, 1)
+  const mat = mat4.fromValues(vs[0], 0, 0, 0, 0, vs[1], 0, 0, 0, 0, vs[2], 0, 0, 0, 0, 1)
+  if (header.vox_to_ras[15] !== 0.0) {
+    for (let i = 0; i < 16; i++) {
+      mat[i] = header.vox_to_ras[i]
+    }
+  }
+  // TrackVis assumes LPS if voxel_order is not set
+  const headerCodes = trkAxcodes(header.voxel_order || 'LPS')
+  const affineCodes = trkAxcodes(trkVoxelOrder(Array.from(mat)))!
+  // flip and permute voxel axes from voxel_order to the orientation of vox_to_ras
+  const orntMat = mat4.fromValues(0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1)
+  for (let i = 0; i < 3; i++) {
+    const code = headerCodes ? headerCodes[i] : affineCodes[i]
+    const j = affineCodes.findIndex((c) => c.axis === code.axis)
+    if (code.isFlipped === affineCodes[j].isFlipped) {
+      orntMat[j * 4 + i] = 1
+    } else {
+      orntMat[j * 4 + i] = -1
+      orntMat[j * 4 + 3] = header.dim[i] - 1
+    }
+  }
+  // matrices are row-major: mat4.mul(out, a, b) yields b * a
+  const vox2mmMat = mat4.create()
+  mat4.mul(vox2mmMat, zoomMat, orntMat)
+  mat4.mul(vox2mmMat, vox2mmMat, mat)
+  return vox2mmMat
+}
+
+// parse the 1000 byte TrackVis header, shared by readTRK and readTRKStream
+function parseTRKHeader(buffer: ArrayBuffer): {
+  header: TRKHeader
+  isLittleEndian: boolean
+  scalars: string[]
+  properties: string[]
+} {
+  const reader = new DataView(buffer)
+  const magic = reader.getUint32(0, true) // 'TRAC'
+  // in practice, always little endian, but old big endian files exist
+  const isLittleEndian = reader.getInt32(996, true) === 1000
+  const vers = reader.getInt32(992, isLittleEndian) // 2
+  const hdr_sz = reader.getInt32(996, isLittleEndian) // 1000
+  if (vers < 1 || vers > 2 || hdr_sz !== 1000 || magic !== 1128354388) {
     throw new Error('Not a valid TRK file')
   }
-  const n_scalars = reader.getInt16(36, true)
-  const dpv = []
-  // data_per_vertex
+  function readStr(offset: number, len: number): string {
+    const arr = new Uint8Array(buffer.slice(offset, offset + len))
+    return new TextDecoder().decode(arr).split('\0').shift()!.trim()
+  }
+  function readFloats(offset: number, n: number): number[] {
+    const vals = []
+    for (let i = 0; i < n; i++) {
+      vals.push(reader.getFloat32(offset + i * 4, isLittleEndian))
+    }
+    return vals
+  }
+  // names of data_per_vertex (scalars) and data_per_streamline (properties), the header has room for 10 of each
+  const n_scalars = reader.getInt16(36, isLittleEndian)
+  const n_properties = reader.getInt16(238, isLittleEndian)
+  if (n_scalars < 0 || n_scalars > 10 || n_properties < 0 || n_properties > 10) {
+    throw new Error(`TRK has ${n_scalars} scalars and ${n_properties} properties, but at most 10 of each are supported`)
+  }
+  const scalars: string[] = []
   for (let i = 0; i < n_scalars; i++) {
-    const arr = new Uint8Array(buffer.slice(38 + i * 20, 58 + i * 20))
-    const str = new TextDecoder().decode(arr).split('\0').shift()
-    dpv.push({
-      id: str!.trim(), // TODO can we guarantee this?
-      vals: [] as number[]
-    })
+    scalars.push(readStr(38 + i * 20, 20))
   }
-  const voxel_sizeX = reader.getFloat32(12, true)
-  const voxel_sizeY = reader.getFloat32(16, true)
-  const voxel_sizeZ = reader.getFloat32(20, true)
-  const zoomMat = mat4.fromValues(
-    1 / voxel_sizeX,
-    0,
-    0,
-    -0.5,
-    0,
-    1 / voxel_sizeY,
-    0,
-    -0.5,
-    0,
-    0,
-    1 / voxel_sizeZ,
-    -0.5,
-    0,
-    0,
-    0,
-    1
-  )
-  const n_properties = reader.getInt16(238, true)
-  const dps = []
-  // data_per_streamline
+  const properties: string[] = []
   for (let i = 0; i < n_properties; i++) {
-    const arr = new Uint8Array(buffer.slice(240 + i * 20, 260 + i * 20))
-    const str = new TextDecoder().decode(arr).split('\0').shift()
-    dps.push({
-      id: str!.trim(), // TODO can we guarantee this?
-      vals: [] as number[]
-    })
+    properties.push(readStr(240 + i * 20, 20))
   }
-  const mat = mat4.create()
-  for (let i = 0; i < 16; i++) {
-    mat[i] = reader.getFloat32(440 + i * 4, true)
+  const header: TRKHeader = {
+    dim: [0, 1, 2].map((i) => reader.getInt16(6 + i * 2, isLittleEndian)),
+    voxel_size: readFloats(12, 3),
+    origin: readFloats(24, 3),
+    // version 1 files have no vox_to_ras (reserved bytes)
+    vox_to_ras: vers === 1 ? new Array(16).fill(0) : readFloats(440, 16),
+    voxel_order: readStr(948, 4),
+    image_orientation_patient: readFloats(956, 6),
+    n_count: reader.getInt32(988, isLittleEndian),
+    version: vers
   }
-  if (mat[15] === 0.0) {
+  if (vers === 2 && header.vox_to_ras[15] === 0.0) {
     // vox_to_ras[3][3] is 0, it means the matrix is not recorded
-    log.warn('TRK vox_to_ras not set')
-    mat4.identity(mat)
+    log.warn('TRK vox_to_ras not set, using voxel_size and voxel_order')
   }
-  const vox2mmMat = mat4.create()
-  mat4.mul(vox2mmMat, zoomMat, mat)
-  let i32 = null
-  let f32 = null
-  i32 = new Int32Array(buffer.slice(hdr_sz))
-  f32 = new Float32Array(i32.buffer)
+  return { header, isLittleEndian, scalars, properties }
+} // parseTRKHeader()
+
+// not included in public docs
+// read trackvis trk format streamlines
+// http://trackvis.org/docs/?subsect=fileformat
+export async function readTRK(buffer: ArrayBuffer): Promise<TRK> {
+  // https://brain.labsolver.org/hcp_trk_atlas.html
+  // https://github.com/xtk/X/tree/master/io
+  const magic = new DataView(buffer).getUint32(0, true) // 'TRAC'
+  if (magic !== 1128354388) {
+    // e.g. TRK.gz or TRK.zst
+    const raw = await NVUtilities.decompress(new Uint8Array(buffer))
+    buffer = raw.buffer
+  }
+  const { header, isLittleEndian, scalars, properties } = parseTRKHeader(buffer)
+  const hdr_sz = 1000
+  const n_scalars = scalars.length
+  const dpv = scalars.map((id) => ({ id, vals: [] as number[] }))
+  const n_properties = properties.length
+  const dps = properties.map((id) => ({ id, vals: [] as number[] }))
+  const vox2mmMat = trkVoxmmToRASMM(header)
+  const body = new Uint8Array(buffer.slice(hdr_sz))
+  if (!isLittleEndian) {
+    // swap the bytes of each 32-bit integer and float
+    for (let j = 0; j + 3 < body.length; j += 4) {
+      let tmp = body[j]
+      body[j] = body[j + 3]
+      body[j + 3] = tmp
+      tmp = body[j + 1]
+      body[j + 1] = body[j + 2]
+      body[j + 2] = tmp
+    }
+  }
+  const i32 = new Int32Array(body.buffer, 0, body.length >> 2)
+  const f32 = new Float32Array(body.buffer, 0, body.length >> 2)
   const ntracks = i32.length
   if (ntracks < 1) {
     throw new Error('Empty TRK file.')
@@ -233,43 +515,612 @@ export async function readTRK(buffer: ArrayBuffer): Promise<TRK> {
     pts,
     offsetPt0,
     dps: dps32,
-    dpv: dpv32
+    dpv: dpv32,
+    header
   }
 } // readTRK()
 
-// read TRX format tractogram
-// https://github.com/tee-ar-ex/trx-spec/blob/master/specifications.md
+// chunks of a ReadableStream or async iterable
+async function* sourceChunks(source: TractSource): AsyncGenerator<Uint8Array> {
+  if (!('getReader' in source)) {
+    yield* source
+    return
+  }
+  const reader = source.getReader()
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) {
+        return
+      }
+      yield value
+    }
+  } finally {
+    // stops a download if the caller stops reading early, does nothing if the stream has ended
+    await reader.cancel()
+  }
+}
+
+// chunks of the file, gzip is decompressed as it arrives
+async function* inputChunks(source: TractSource, progress: TractStreamProgress): AsyncGenerator<Uint8Array> {
+  const chunks = sourceChunks(source)
+  // the first bytes identify compressed files
+  const head: Uint8Array[] = []
+  let nHead = 0
+  while (nHead < 4) {
+    const { done, value } = await chunks.next()
+    if (done) {
+      break
+    }
+    progress.bytesRead += value.length
+    head.push(value)
+    nHead += value.length
+  }
+  async function* all(): AsyncGenerator<Uint8Array> {
+    yield* head
+    for await (const chunk of chunks) {
+      progress.bytesRead += chunk.length
+      yield chunk
+    }
+  }
+  try {
+    const first = head.length === 1 ? head[0] : concatChunks(head)
+    if (first[0] === 31 && first[1] === 139) {
+      const compressed = all()
+      const stream = new ReadableStream<Uint8Array>({
+        async pull(controller): Promise<void> {
+          const { done, value } = await compressed.next()
+          if (done) {
+            controller.close()
+          } else {
+            controller.enqueue(value)
+          }
+        },
+        async cancel(): Promise<void> {
+          await compressed.return(undefined)
+        }
+      })
+      yield* sourceChunks(stream.pipeThrough(new DecompressionStream('gzip')))
+    } else if (isZstd(first)) {
+      // zstd is decompressed once the whole file has arrived
+      const parts: Uint8Array[] = []
+      for await (const chunk of all()) {
+        parts.push(chunk)
+      }
+      yield decompressZstd(concatChunks(parts))
+    } else {
+      yield* all()
+    }
+  } finally {
+    // stops reading the source if the caller stops early
+    await chunks.return(undefined)
+  }
+}
+
+function concatChunks(chunks: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(chunks.reduce((n, chunk) => n + chunk.length, 0))
+  let pos = 0
+  for (const chunk of chunks) {
+    out.set(chunk, pos)
+    pos += chunk.length
+  }
+  return out
+}
+
+// bytes received but not yet parsed
+class StreamBuffer {
+  bytes = new Uint8Array(0)
+  view = new DataView(this.bytes.buffer)
+  pos = 0
+  end = 0
+  #chunks: AsyncGenerator<Uint8Array>
+
+  constructor(chunks: AsyncGenerator<Uint8Array>) {
+    this.#chunks = chunks
+  }
+
+  get available(): number {
+    return this.end - this.pos
+  }
+
+  // wait until n bytes are available, returns false if the stream ends first
+  async fill(n: number): Promise<boolean> {
+    while (this.available < n) {
+      const { done, value } = await this.#chunks.next()
+      if (done) {
+        return false
+      }
+      if (this.end + value.length > this.bytes.length) {
+        // discard parsed bytes, growing the buffer if required
+        const unread = this.bytes.subarray(this.pos, this.end)
+        if (unread.length + value.length > this.bytes.length) {
+          this.bytes = new Uint8Array(Math.max(unread.length + value.length, this.bytes.length * 2))
+          this.view = new DataView(this.bytes.buffer)
+        }
+        this.bytes.set(unread)
+        this.pos = 0
+        this.end = unread.length
+      }
+      this.bytes.set(value, this.end)
+      this.end += value.length
+    }
+    return true
+  }
+
+  async close(): Promise<void> {
+    await this.#chunks.return(undefined)
+  }
+}
+
+// streamlines of the current batch
+class BatchBuilder {
+  pts: number[] = []
+  offsetPt0: number[] = [0]
+  dpv: number[][]
+  dps: number[][]
+  #dpvIds: string[]
+  #dpsIds: string[]
+  #header: TRKHeader | MRtrixHeader
+  #progress: TractStreamProgress
+
+  constructor(dpvIds: string[], dpsIds: string[], header: TRKHeader | MRtrixHeader, progress: TractStreamProgress) {
+    this.#dpvIds = dpvIds
+    this.#dpsIds = dpsIds
+    this.dpv = dpvIds.map(() => [])
+    this.dps = dpsIds.map(() => [])
+    this.#header = header
+    this.#progress = progress
+  }
+
+  get streamlineCount(): number {
+    return this.offsetPt0.length - 1
+  }
+
+  get vertexCount(): number {
+    return this.pts.length / 3
+  }
+
+  endStreamline(): void {
+    this.offsetPt0.push(this.vertexCount)
+  }
+
+  flush(options: TractStreamOptions): TractBatch {
+    const batch: TractBatch = {
+      pts: Float32Array.from(this.pts),
+      offsetPt0: Uint32Array.from(this.offsetPt0),
+      dpv: this.#dpvIds.map((id, i) => ({ id, vals: Float32Array.from(this.dpv[i]) })),
+      dps: this.#dpsIds.map((id, i) => ({ id, vals: Float32Array.from(this.dps[i]) })),
+      firstStreamline: this.#progress.streamlineCount,
+      header: this.#header
+    }
+    this.#progress.streamlineCount += this.streamlineCount
+    this.#progress.vertexCount += this.vertexCount
+    this.pts = []
+    this.offsetPt0 = [0]
+    this.dpv = this.#dpvIds.map(() => [])
+    this.dps = this.#dpsIds.map(() => [])
+    options.onProgress?.({ ...this.#progress })
+    return batch
+  }
+}
+
+// read mrtrix tck streamlines as they arrive, yielding batches of complete streamlines
+// e.g. for await (const batch of readTCKStream((await fetch(url)).body!)) { ... }
+export async function* readTCKStream(
+  source: TractSource,
+  options: TractStreamOptions = {}
+): AsyncGenerator<TractBatch> {
+  const batchSize = options.batchSize ?? 1000
+  const progress: TractStreamProgress = { bytesRead: 0, streamlineCount: 0, vertexCount: 0 }
+  const input = new StreamBuffer(inputChunks(source, progress))
+  try {
+    // the text header ends with an END line
+    const decoder = new TextDecoder('latin1')
+    let headerEnd = -1
+    while (headerEnd < 0 && input.end < 1048576 && (await input.fill(input.available + 1))) {
+      const match = /\nEND\r?\n/.exec(decoder.decode(input.bytes.subarray(0, input.end)))
+      headerEnd = match ? match.index + match[0].length : -1
+    }
+    const headerBytes = input.bytes.slice(0, headerEnd < 0 ? input.end : headerEnd)
+    const { offset, header, isFloat64, isLittleEndian } = readMRtrixHeader(headerBytes.buffer, 'mrtrix tracks')
+    if (!(await input.fill(offset))) {
+      throw new Error('TCK stream ends before its data')
+    }
+    input.pos = offset
+    const bytesPerValue = isFloat64 ? 8 : 4
+    const batch = new BatchBuilder([], [], header, progress)
+    let isEnded = false
+    while (!isEnded && (await input.fill(3 * bytesPerValue))) {
+      const reader = input.view
+      // parse every complete vertex that has arrived
+      while (input.available >= 3 * bytesPerValue) {
+        const pos = input.pos
+        input.pos += 3 * bytesPerValue
+        const ptx = isFloat64 ? reader.getFloat64(pos, isLittleEndian) : reader.getFloat32(pos, isLittleEndian)
+        if (isFinite(ptx)) {
+          batch.pts.push(ptx)
+          for (let i = 1; i < 3; i++) {
+            const p = pos + i * bytesPerValue
+            batch.pts.push(isFloat64 ? reader.getFloat64(p, isLittleEndian) : reader.getFloat32(p, isLittleEndian))
+          }
+          continue
+        }
+        if (!isNaN(ptx)) {
+          // terminate if infinity
+          isEnded = true
+          break
+        }
+        batch.endStreamline()
+        if (batch.streamlineCount >= batchSize) {
+          yield batch.flush(options)
+        }
+      }
+    }
+    // final streamline may not be followed by a NaN delimiter
+    if (batch.vertexCount > batch.offsetPt0[batch.offsetPt0.length - 1]) {
+      batch.endStreamline()
+    }
+    if (batch.streamlineCount > 0) {
+      yield batch.flush(options)
+    }
+  } finally {
+    await input.close()
+  }
+} // readTCKStream()
 
-export async function readTRX(buffer: ArrayBuffer): Promise<TRX> {
-  // Javascript does not support float16, so we convert to float32
-  // https://stackoverflow.com/questions/5678432/decompressing-half-precision-floats-in-javascript
-  function decodeFloat16(binary: number): number {
-    'use strict'
-    const exponent = (binary & 0x7c00) >> 10
-    const fraction = binary & 0x03ff
-    return (
-      (binary >> 15 ? -1 : 1) *
-      (exponent
-        ? exponent === 0x1f
-          ? fraction
-            ? NaN
-            : Infinity
-          : Math.pow(2, exponent - 15) * (1 + fraction / 0x400)
-        : 6.103515625e-5 * (fraction / 0x400))
+// read trackvis trk streamlines as they arrive, yielding batches of complete streamlines
+export async function* readTRKStream(
+  source: TractSource,
+  options: TractStreamOptions = {}
+): AsyncGenerator<TractBatch> {
+  const batchSize = options.batchSize ?? 1000
+  const progress: TractStreamProgress = { bytesRead: 0, streamlineCount: 0, vertexCount: 0 }
+  const input = new StreamBuffer(inputChunks(source, progress))
+  try {
+    if (!(await input.fill(1000))) {
+      throw new Error('Not a valid TRK file')
+    }
+    const { header, isLittleEndian, scalars, properties } = parseTRKHeader(input.bytes.slice(0, 1000).buffer)
+    input.pos = 1000
+    const vox2mmMat = trkVoxmmToRASMM(header)
+    const batch = new BatchBuilder(scalars, properties, header, progress)
+    const n_scalars = scalars.length
+    const n_properties = properties.length
+    while (await input.fill(4)) {
+      const n_pts = input.view.getInt32(input.pos, isLittleEndian)
+      const nbytes = 4 + n_pts * (3 + n_scalars) * 4 + n_properties * 4
+      if (n_pts < 0 || !(await input.fill(nbytes))) {
+        throw new Error(`TRK stream ends within streamline ${progress.streamlineCount + batch.streamlineCount}`)
+      }
+      const reader = input.view
+      let pos = input.pos + 4
+      for (let j = 0; j < n_pts; j++) {
+        const ptx = reader.getFloat32(pos, isLittleEndian)
+        const pty = reader.getFloat32(pos + 4, isLittleEndian)
+        const ptz = reader.getFloat32(pos + 8, isLittleEndian)
+        pos += 12
+        batch.pts.push(ptx * vox2mmMat[0] + pty * vox2mmMat[1] + ptz * vox2mmMat[2] + vox2mmMat[3])
+        batch.pts.push(ptx * vox2mmMat[4] + pty * vox2mmMat[5] + ptz * vox2mmMat[6] + vox2mmMat[7])
+        batch.pts.push(ptx * vox2mmMat[8] + pty * vox2mmMat[9] + ptz * vox2mmMat[10] + vox2mmMat[11])
+        for (let s = 0; s < n_scalars; s++) {
+          batch.dpv[s].push(reader.getFloat32(pos, isLittleEndian))
+          pos += 4
+        }
+      }
+      for (let p = 0; p < n_properties; p++) {
+        batch.dps[p].push(reader.getFloat32(pos, isLittleEndian))
+        pos += 4
+      }
+      input.pos = pos
+      batch.endStreamline()
+      if (batch.streamlineCount >= batchSize) {
+        yield batch.flush(options)
+      }
+    }
+    if (batch.streamlineCount > 0) {
+      yield batch.flush(options)
+    }
+  } finally {
+    await input.close()
+  }
+} // readTRKStream()
+
+// write trackvis trk format streamlines, returns the bytes of the file
+// positions are RAS mm (as returned by readTRK) and are saved in voxel-corner (voxmm) space
+export function writeTRK(trk: TRK, header: Partial<TRKHeader> = {}): Uint8Array {
+  // fields not provided are copied from the header returned by readTRK
+  const hdr = { ...trk.header, ...header }
+  const dim = hdr.dim ?? [1, 1, 1]
+  const voxel_size = hdr.voxel_size ?? [1, 1, 1]
+  let vox_to_ras = hdr.vox_to_ras ?? [
+    voxel_size[0],
+    0,
+    0,
+    0,
+    0,
+    voxel_size[1],
+    0,
+    0,
+    0,
+    0,
+    voxel_size[2],
+    0,
+    0,
+    0,
+    0,
+    1
+  ]
+  // by default, voxel_order matches vox_to_ras so that no axes are flipped
+  const voxel_order = hdr.voxel_order || (vox_to_ras[15] !== 0.0 ? trkVoxelOrder(vox_to_ras) : 'RAS')
+  if (vox_to_ras[15] === 0.0) {
+    // e.g. header of a version 1 file: store the matrix implied by voxel_size and voxel_order
+    const voxmm2mmMat = trkVoxmmToRASMM({ dim, voxel_size, vox_to_ras, voxel_order })
+    const vs = voxel_size
+    const vox2voxmmMat = mat4.fromValues(
+      vs[0],
+      0,
+      0,
+      0.5 * vs[0],
+      0,
+      vs[1],
+      0,
+      0.5 * vs[1],
+      0,
+      0,
+      vs[2],
+      0.5 * vs[2],
+      0,
+      0,
+      0,
+      1
     )
-  } // decodeFloat16()
-  let noff = 0
-  let npt = 0
-  let pts: Float32Array
-  let offsetPt0: Uint32Array // number[] = []
-  const dpg = []
-  const dps = []
-  const dpv = []
-  let header = []
-  let isOverflowUint64 = false
-  const zip = new Zip(buffer)
-  for (let i = 0; i < zip.entries.length; i++) {
-    const entry = zip.entries[i]
+    // matrices are row-major: mat4.mul(out, a, b) yields b * a
+    vox_to_ras = Array.from(mat4.mul(mat4.create(), vox2voxmmMat, voxmm2mmMat))
+  }
+  const origin = hdr.origin ?? [0, 0, 0]
+  const image_orientation_patient = hdr.image_orientation_patient ?? [0, 0, 0, 0, 0, 0]
+  if (
+    dim.length !== 3 ||
+    voxel_size.length !== 3 ||
+    vox_to_ras.length !== 16 ||
+    origin.length !== 3 ||
+    image_orientation_patient.length !== 6
+  ) {
+    throw new Error('TRK header requires 3 dim, 3 voxel_size, 3 origin, 16 vox_to_ras and 6 image_orientation_patient')
+  }
+  const nvert = trk.pts.length / 3
+  const nstreamlines = trk.offsetPt0.length - 1
+  if (nstreamlines < 0 || trk.offsetPt0[nstreamlines] !== nvert) {
+    throw new Error('TRK offsetPt0 must end with the number of vertices (fence post)')
+  }
+  const n_scalars = trk.dpv.length
+  const n_properties = trk.dps.length
+  if (n_scalars > 10 || n_properties > 10) {
+    throw new Error('TRK supports at most 10 scalars (dpv) and 10 properties (dps)')
+  }
+  for (const item of trk.dpv) {
+    if (item.vals.length !== nvert) {
+      throw new Error(`dpv '${item.id}' has ${item.vals.length} values but there are ${nvert} vertices`)
+    }
+  }
+  for (const item of trk.dps) {
+    if (item.vals.length !== nstreamlines) {
+      throw new Error(`dps '${item.id}' has ${item.vals.length} values but there are ${nstreamlines} streamlines`)
+    }
+  }
+  const hdr_sz = 1000
+  const nval = nstreamlines * (1 + n_properties) + nvert * (3 + n_scalars)
+  const buffer = new ArrayBuffer(hdr_sz + nval * 4)
+  const writer = new DataView(buffer)
+  const bytes = new Uint8Array(buffer)
+  function writeStr(offset: number, str: string, maxLen: number): void {
+    const arr = new TextEncoder().encode(str)
+    if (arr.length > maxLen) {
+      throw new Error(`TRK string too long (max ${maxLen} bytes): '${str}'`)
+    }
+    bytes.set(arr, offset)
+  }
+  writeStr(0, 'TRACK', 6)
+  for (let i = 0; i < 3; i++) {
+    writer.setInt16(6 + i * 2, dim[i], true)
+    writer.setFloat32(12 + i * 4, voxel_size[i], true)
+  }
+  writer.setInt16(36, n_scalars, true)
+  for (let i = 0; i < n_scalars; i++) {
+    writeStr(38 + i * 20, trk.dpv[i].id, 19)
+  }
+  writer.setInt16(238, n_properties, true)
+  for (let i = 0; i < n_properties; i++) {
+    writeStr(240 + i * 20, trk.dps[i].id, 19)
+  }
+  for (let i = 0; i < 16; i++) {
+    writer.setFloat32(440 + i * 4, vox_to_ras[i], true)
+  }
+  for (let i = 0; i < 3; i++) {
+    writer.setFloat32(24 + i * 4, origin[i], true)
+  }
+  writeStr(948, voxel_order, 4)
+  for (let i = 0; i < 6; i++) {
+    writer.setFloat32(956 + i * 4, image_orientation_patient[i], true)
+  }
+  writer.setInt32(988, nstreamlines, true)
+  writer.setInt32(992, 2, true)
+  writer.setInt32(996, hdr_sz, true)
+  // reverse readTRK
+  const mm2voxMat = trkVoxmmToRASMM({ dim, voxel_size, vox_to_ras, voxel_order })
+  if (!mat4.invert(mm2voxMat, mm2voxMat)) {
+    throw new Error('TRK vox_to_ras is not invertible')
+  }
+  const i32 = new Int32Array(buffer, hdr_sz)
+  const f32 = new Float32Array(buffer, hdr_sz)
+  let i = 0
+  for (let s = 0; s < nstreamlines; s++) {
+    const start = trk.offsetPt0[s]
+    const end = trk.offsetPt0[s + 1]
+    i32[i++] = end - start
+    for (let v = start; v < end; v++) {
+      const x = trk.pts[v * 3]
+      const y = trk.pts[v * 3 + 1]
+      const z = trk.pts[v * 3 + 2]
+      f32[i++] = x * mm2voxMat[0] + y * mm2voxMat[1] + z * mm2voxMat[2] + mm2voxMat[3]
+      f32[i++] = x * mm2voxMat[4] + y * mm2voxMat[5] + z * mm2voxMat[6] + mm2voxMat[7]
+      f32[i++] = x * mm2voxMat[8] + y * mm2voxMat[9] + z * mm2voxMat[10] + mm2voxMat[11]
+      for (let j = 0; j < n_scalars; j++) {
+        f32[i++] = trk.dpv[j].vals[v]
+      }
+    }
+    for (let j = 0; j < n_properties; j++) {
+      f32[i++] = trk.dps[j].vals[s]
+    }
+  }
+  return bytes
+} // writeTRK()
+
+// parse and check the required fields of a TRX header.json
+export function parseTRXHeader(json: string): TRXHeader {
+  const header = JSON.parse(json)
+  if (typeof header !== 'object' || header === null || Array.isArray(header)) {
+    throw new Error('TRX header.json must be an object')
+  }
+  const dims = header.DIMENSIONS
+  if (!Array.isArray(dims) || dims.length !== 3 || !dims.every((v) => Number.isInteger(v) && v > 0)) {
+    throw new Error(`TRX DIMENSIONS must be 3 positive integers: ${JSON.stringify(dims)}`)
+  }
+  const mat = header.VOXEL_TO_RASMM
+  if (
+    !Array.isArray(mat) ||
+    mat.length !== 4 ||
+    !mat.every((row) => Array.isArray(row) && row.length === 4 && row.every((v) => Number.isFinite(v)))
+  ) {
+    throw new Error(`TRX VOXEL_TO_RASMM must be a 4x4 matrix: ${JSON.stringify(mat)}`)
+  }
+  for (const key of ['NB_VERTICES', 'NB_STREAMLINES']) {
+    if (!Number.isInteger(header[key]) || header[key] < 0) {
+      throw new Error(`TRX ${key} must be a non-negative integer: ${JSON.stringify(header[key])}`)
+    }
+  }
+  return header as TRXHeader
+} // parseTRXHeader()
+
+// Javascript does not support float16, so we convert to float32
+// https://stackoverflow.com/questions/5678432/decompressing-half-precision-floats-in-javascript
+function decodeFloat16(binary: number): number {
+  'use strict'
+  const exponent = (binary & 0x7c00) >> 10
+  const fraction = binary & 0x03ff
+  return (
+    (binary >> 15 ? -1 : 1) *
+    (exponent
+      ? exponent === 0x1f
+        ? fraction
+          ? NaN
+          : Infinity
+        : Math.pow(2, exponent - 15) * (1 + fraction / 0x400)
+      : 6.103515625e-5 * (fraction / 0x400))
+  )
+} // decodeFloat16()
+
+let float16Lut: Float32Array | null = null
+
+// datatype of a TRX array from its filename, e.g. positions.3.float16 -> float16, null if not an array
+function trxDtype(fname: string): TRXDtype | null {
+  const match = fname.match(/\.((u?int|float)(8|16|32|64))$/)
+  return match ? (match[1] as TRXDtype) : null
+}
+
+// bytes per value of a TRX array from its filename, e.g. positions.3.float16 -> 2, 0 if not an array
+function trxBytesPerValue(fname: string): number {
+  const dtype = trxDtype(fname)
+  return dtype ? parseInt(dtype.replace(/\D/g, '')) / 8 : 0
+}
+
+// name and number of components of a TRX data array, e.g. colors.3.uint8 -> colors, 3
+function trxNameComponents(fname: string): [string, number] {
+  const parts = fname.split('.')
+  parts.pop() // datatype
+  if (parts.length > 1 && /^\d+$/.test(parts[parts.length - 1])) {
+    const nComponents = parseInt(parts.pop()!)
+    return [parts.join('.'), nComponents]
+  }
+  return [parts.join('.'), 1]
+}
+
+// typed array of the bytes: a view if the bytes are aligned for the datatype, otherwise a copy
+function viewAs<T extends TypedNumberArray>(
+  TypedArray: { new (buffer: ArrayBufferLike, byteOffset: number, length: number): T; BYTES_PER_ELEMENT: number },
+  data: Uint8Array
+): T {
+  if (data.byteOffset % TypedArray.BYTES_PER_ELEMENT !== 0) {
+    data = data.slice()
+  }
+  return new TypedArray(data.buffer, data.byteOffset, data.length / TypedArray.BYTES_PER_ELEMENT)
+}
+
+// convert the bytes of a TRX array to numbers, the datatype is given by the filename extension
+// arrays in a native datatype share memory with data
+// javascript does not have 64-bit integers: these are returned as Float64Array, which is exact up to 2^53
+function decodeTRXArray(fname: string, data: Uint8Array): TypedNumberArray {
+  if (fname.endsWith('.uint64') || fname.endsWith('.int64')) {
+    const nval = data.length / 8 // 8 bytes per 64bit input
+    const vals = new Float64Array(nval)
+    const u32 = viewAs(Uint32Array, data)
+    const isSigned = fname.endsWith('.int64')
+    for (let i = 0; i < nval; i++) {
+      const hi = isSigned ? u32[i * 2 + 1] | 0 : u32[i * 2 + 1]
+      vals[i] = hi * 4294967296 + u32[i * 2]
+    }
+    return vals
+  } else if (fname.endsWith('.uint32')) {
+    return viewAs(Uint32Array, data)
+  } else if (fname.endsWith('.uint16')) {
+    return viewAs(Uint16Array, data)
+  } else if (fname.endsWith('.uint8')) {
+    return viewAs(Uint8Array, data)
+  } else if (fname.endsWith('.int32')) {
+    return viewAs(Int32Array, data)
+  } else if (fname.endsWith('.int16')) {
+    return viewAs(Int16Array, data)
+  } else if (fname.endsWith('.int8')) {
+    return viewAs(Int8Array, data)
+  } else if (fname.endsWith('.float64')) {
+    return viewAs(Float64Array, data)
+  } else if (fname.endsWith('.float32')) {
+    return viewAs(Float32Array, data)
+  } else if (fname.endsWith('.float16')) {
+    // javascript does not have 16-bit floats! Convert to 32-bits
+    const nval = data.length / 2 // 2 bytes per 16bit input
+    const vals = new Float32Array(nval)
+    const u16 = viewAs(Uint16Array, data)
+    if (!float16Lut) {
+      float16Lut = new Float32Array(65536)
+      for (let i = 0; i < 65536; i++) {
+        float16Lut[i] = decodeFloat16(i)
+      }
+    }
+    for (let i = 0; i < nval; i++) {
+      vals[i] = float16Lut[u16[i]]
+    }
+    return vals
+  }
+  throw new Error(`Unsupported TRX datatype: ${fname}`)
+} // decodeTRXArray()
+
+// index a TRX archive from its zip central directory: only header.json is decoded
+// https://github.com/tee-ar-ex/trx-spec/blob/master/specifications.md
+
+export async function openTRX(buffer: ArrayBuffer, options: TRXReadOptions = {}): Promise<LazyTRX> {
+  type ZipEntry = Zip['entries'][number]
+  const zip = new Zip(buffer, { zeroCopy: options.zeroCopy })
+  let headerEntry: ZipEntry | null = null
+  let positionsEntry: ZipEntry | null = null
+  let offsetsEntry: ZipEntry | null = null
+  const dpvEntries = new Map<string, ZipEntry>()
+  const dpsEntries = new Map<string, ZipEntry>()
+  const groupEntries = new Map<string, ZipEntry>()
+  const dpgEntries = new Map<string, Map<string, ZipEntry>>()
+  const dtypes: Record<string, TRXDtype> = {}
+  const nComponents: Record<string, number> = {}
+  for (const entry of zip.entries) {
     if (entry.uncompressedSize === 0) {
       continue // e.g. folder
     }
@@ -279,116 +1130,581 @@ export async function readTRX(buffer: ArrayBuffer): Promise<TRX> {
       continue
     }
     const pname = parts.slice(-2)[0] // my.trx/dpv/fx.float32 -> dpv
-    const tag = fname.split('.')[0] // "positions.3.float16 -> "positions"
-    const data = await entry.extract()
-    // const data = await NVUtilities.zipInflate(buffer, entry.startsAt, entry.compressedSize, entry.uncompressedSize, entry.compressionMethod )
-    // console.log(`entry ${pname}  ${fname}  ${tag} : ${data.length}`)
+    const [tag, n] = trxNameComponents(fname) // colors.3.uint8 -> colors, 3
     if (fname.includes('header.json')) {
-      header = JSON.parse(new TextDecoder().decode(data))
+      headerEntry = entry
       continue
     }
-    // next read arrays for all possible datatypes: int8/16/32/64 uint8/16/32/64 float16/32/64
-    let nval = 0
-    let vals: AnyNumberArray = []
-    if (fname.endsWith('.uint64') || fname.endsWith('.int64')) {
-      // javascript does not have 64-bit integers! read lower 32-bits
-      // note for signed int64 we only read unsigned bytes
-      // for both signed and unsigned, generate an error if any value is out of bounds
-      // one alternative might be to convert to 64-bit double that has a flintmax of 2^53.
-      nval = data.length / 8 // 8 bytes per 64bit input
-      vals = new Uint32Array(nval)
-      const u32 = new Uint32Array(data.buffer)
-      let j = 0
-      for (let i = 0; i < nval; i++) {
-        vals[i] = u32[j]
-        if (u32[j + 1] !== 0) {
-          isOverflowUint64 = true
-        }
-        j += 2
-      }
-    } else if (fname.endsWith('.uint32')) {
-      vals = new Uint32Array(data.buffer)
-    } else if (fname.endsWith('.uint16')) {
-      vals = new Uint16Array(data.buffer)
-    } else if (fname.endsWith('.uint8')) {
-      vals = new Uint8Array(data.buffer)
-    } else if (fname.endsWith('.int32')) {
-      vals = new Int32Array(data.buffer)
-    } else if (fname.endsWith('.int16')) {
-      vals = new Int16Array(data.buffer)
-    } else if (fname.endsWith('.int8')) {
-      vals = new Int8Array(data.buffer)
-    } else if (fname.endsWith('.float64')) {
-      vals = new Float64Array(data.buffer)
-    } else if (fname.endsWith('.float32')) {
-      vals = new Float32Array(data.buffer)
-    } else if (fname.endsWith('.float16')) {
-      // javascript does not have 16-bit floats! Convert to 32-bits
-      nval = data.length / 2 // 2 bytes per 16bit input
-      vals = new Float32Array(nval)
-      const u16 = new Uint16Array(data.buffer)
-      const lut = new Float32Array(65536)
-      for (let i = 0; i < 65536; i++) {
-        lut[i] = decodeFloat16(i)
-      }
-      for (let i = 0; i < nval; i++) {
-        vals[i] = lut[u16[i]]
-      }
-    } else {
+    // next index arrays for all possible datatypes: int8/16/32/64 uint8/16/32/64 float16/32/64
+    const dtype = trxDtype(fname)
+    if (!dtype) {
       continue
     } // not a data array
-    nval = vals.length
-    // next: read data_per_group
-    if (pname.includes('groups')) {
-      dpg.push({
-        id: tag,
-        vals: Float32Array.from(vals.slice())
-      })
-      continue
-    }
-    // next: read data_per_vertex
-    if (pname.includes('dpv')) {
-      dpv.push({
-        id: tag,
-        vals: Float32Array.from(vals.slice())
-      })
-      continue
+    if (parts.length > 2 && parts.slice(-3)[0] === 'dpg') {
+      // my.trx/dpg/CST/mean_fa.float32 -> group CST
+      if (!dpgEntries.has(pname)) {
+        dpgEntries.set(pname, new Map())
+      }
+      dpgEntries.get(pname)!.set(tag, entry)
+      dtypes[`dpg/${pname}/${tag}`] = dtype
+      nComponents[`dpg/${pname}/${tag}`] = n
+    } else if (pname === 'groups') {
+      // my.trx/groups/CST.left.uint32 -> CST.left
+      const name = fname.slice(0, fname.lastIndexOf('.'))
+      groupEntries.set(name, entry)
+      dtypes[`groups/${name}`] = dtype
+    } else if (pname === 'dpv') {
+      dpvEntries.set(tag, entry)
+      dtypes[`dpv/${tag}`] = dtype
+      nComponents[`dpv/${tag}`] = n
+    } else if (pname === 'dps') {
+      dpsEntries.set(tag, entry)
+      dtypes[`dps/${tag}`] = dtype
+      nComponents[`dps/${tag}`] = n
+    } else if (fname.startsWith('offsets.')) {
+      offsetsEntry = entry
+    } else if (fname.startsWith('positions.3.')) {
+      positionsEntry = entry
     }
-    // next: read data_per_streamline
-    if (pname.includes('dps')) {
-      dps.push({
-        id: tag,
-        vals: Float32Array.from(vals.slice())
-      })
-      continue
+  }
+  if (!offsetsEntry || !positionsEntry) {
+    throw new Error('Failure reading TRX format (no offsets or points).')
+  }
+  if (!headerEntry) {
+    throw new Error('Failure reading TRX format (no header.json).')
+  }
+  const header = parseTRXHeader(new TextDecoder().decode(await headerEntry.extract!()))
+  // the sizes of the arrays are known before they are decompressed
+  const noff = offsetsEntry.uncompressedSize / trxBytesPerValue(offsetsEntry.fileName)
+  const nvert = positionsEntry.uncompressedSize / (3 * trxBytesPerValue(positionsEntry.fileName))
+  async function readArray(entry: ZipEntry): Promise<TypedNumberArray> {
+    return decodeTRXArray(entry.fileName, await entry.extract!())
+  }
+  // extracted arrays are not shared, so float32 data is returned without another copy
+  async function readFloat32(entry: ZipEntry): Promise<Float32Array> {
+    const vals = await readArray(entry)
+    return vals instanceof Float32Array ? vals : Float32Array.from(vals)
+  }
+  // dpv, dps and dpg values: nItems items (any number if null) of the components given by the filename
+  async function readValues(entry: ZipEntry, key: string, nItems: number | null): Promise<TypedNumberArray> {
+    const nvals = entry.uncompressedSize / trxBytesPerValue(entry.fileName)
+    const n = nComponents[key]
+    if (n < 1 || nvals % n !== 0 || (nItems !== null && nvals !== nItems * n)) {
+      const expected = nItems !== null ? `${nItems} items` : 'items'
+      throw new Error(`TRX ${entry.fileName} has ${nvals} values, expected ${expected} of ${n} components`)
     }
-    if (fname.startsWith('offsets.')) {
-      noff = nval // 8 bytes per 64bit input
-      offsetPt0 = new Uint32Array(vals.buffer)
+    return options.preserveDtype ? readArray(entry) : readFloat32(entry)
+  }
+  function find(entries: Map<string, ZipEntry> | undefined, id: string, description: string): ZipEntry {
+    const entry = entries?.get(id)
+    if (!entry) {
+      throw new Error(`TRX has no ${description}`)
     }
-    if (fname.startsWith('positions.3.')) {
-      npt = nval // 4 bytes per 32bit input
-      pts = new Float32Array(vals.buffer)
+    return entry
+  }
+  return {
+    header,
+    dpvNames: [...dpvEntries.keys()],
+    dpsNames: [...dpsEntries.keys()],
+    groupNames: [...groupEntries.keys()],
+    dpgNames: Object.fromEntries([...dpgEntries].map(([group, entries]) => [group, [...entries.keys()]])),
+    readPositions: async () => readFloat32(positionsEntry),
+    readOffsets: async () => {
+      // reserve one more element for the fence post, the offset for the end of the final streamline
+      const offsetPt0 = nvert > 0xffffffff ? new Float64Array(noff + 1) : new Uint32Array(noff + 1)
+      offsetPt0.set(await readArray(offsetsEntry))
+      offsetPt0[noff] = nvert
+      return offsetPt0
+    },
+    dtypes,
+    nComponents,
+    readDpv: async (id) => readValues(find(dpvEntries, id, `dpv '${id}'`), `dpv/${id}`, nvert),
+    readDps: async (id) => readValues(find(dpsEntries, id, `dps '${id}'`), `dps/${id}`, noff),
+    readGroup: async (name) => {
+      const vals = await readArray(find(groupEntries, name, `group '${name}'`))
+      for (let i = 0; i < vals.length; i++) {
+        if (vals[i] < 0 || vals[i] >= noff) {
+          throw new Error(`TRX group '${name}' refers to streamline ${vals[i]} but there are ${noff}`)
+        }
+      }
+      return vals instanceof Uint32Array ? vals : Uint32Array.from(vals)
+    },
+    readDpg: async (group, id) =>
+      readValues(find(dpgEntries.get(group), id, `dpg '${group}/${id}'`), `dpg/${group}/${id}`, null)
+  }
+} // openTRX()
+
+// read only header.json of a TRX file, e.g. to preview a large tractogram
+export async function readTRXHeader(buffer: ArrayBuffer): Promise<TRXHeader> {
+  return (await openTRX(buffer)).header
+} // readTRXHeader()
+
+// read TRX format tractogram
+
+export async function readTRX(buffer: ArrayBuffer, options: TRXReadOptions = {}): Promise<TRX> {
+  const trx = await openTRX(buffer, options)
+  const pts = await trx.readPositions()
+  const offsetPt0 = await trx.readOffsets()
+  const groups: TRXGroups = {}
+  for (const name of trx.groupNames) {
+    groups[name] = await trx.readGroup(name)
+  }
+  const dpg: TRXDataPerGroup = {}
+  for (const group in trx.dpgNames) {
+    dpg[group] = []
+    for (const id of trx.dpgNames[group]) {
+      const key = `dpg/${group}/${id}`
+      dpg[group].push({
+        id,
+        vals: await trx.readDpg(group, id),
+        dtype: trx.dtypes[key],
+        nComponents: trx.nComponents[key]
+      })
     }
   }
-  if (noff === 0 || npt === 0) {
-    throw new Error('Failure reading TRX format (no offsets or points).')
+  const dps = []
+  for (const id of trx.dpsNames) {
+    dps.push({
+      id,
+      vals: await trx.readDps(id),
+      dtype: trx.dtypes[`dps/${id}`],
+      nComponents: trx.nComponents[`dps/${id}`]
+    })
   }
-  if (isOverflowUint64) {
-    // TODO use BigInt
-    throw new Error('Too many vertices: JavaScript does not support 64 bit integers')
+  const dpv = []
+  for (const id of trx.dpvNames) {
+    dpv.push({
+      id,
+      vals: await trx.readDpv(id),
+      dtype: trx.dtypes[`dpv/${id}`],
+      nComponents: trx.nComponents[`dpv/${id}`]
+    })
   }
-  offsetPt0[noff] = npt / 3 // solve fence post problem, offset for final streamline
   return {
     pts,
     offsetPt0,
+    groups,
     dpg,
     dps,
     dpv,
-    header
+    header: trx.header
   }
 } // readTRX()
 
+// check a TRX file against the specification, each diagnostic names the zip entry at fault
+// unlike readTRX, all problems are reported rather than only the first
+export async function validateTRX(buffer: ArrayBuffer): Promise<TRXValidation> {
+  type ZipEntry = Zip['entries'][number]
+  const diagnostics: TRXDiagnostic[] = []
+  function error(entry: string, message: string): void {
+    diagnostics.push({ severity: 'error', entry, message })
+  }
+  function warn(entry: string, message: string): void {
+    diagnostics.push({ severity: 'warning', entry, message })
+  }
+  function result(): TRXValidation {
+    return { isValid: !diagnostics.some((d) => d.severity === 'error'), diagnostics }
+  }
+  let zip: Zip
+  try {
+    zip = new Zip(buffer, { verifyCRC: true })
+  } catch (e) {
+    error('', (e as Error).message)
+    return result()
+  }
+  // decompress and check the CRC-32, null if the entry can not be read
+  async function extract(entry: ZipEntry): Promise<Uint8Array | null> {
+    try {
+      return await entry.extract!()
+    } catch (e) {
+      error(entry.fileName, (e as Error).message)
+      return null
+    }
+  }
+  // values of an array, null if the entry can not be read or its size does not match its datatype
+  async function readArray(entry: ZipEntry, nComponents: number = 1): Promise<TypedNumberArray | null> {
+    const nbytes = trxBytesPerValue(entry.fileName) * nComponents
+    if (entry.uncompressedSize % nbytes !== 0) {
+      error(entry.fileName, `size ${entry.uncompressedSize} is not a multiple of ${nbytes} bytes per item`)
+      return null
+    }
+    const data = await extract(entry)
+    return data ? decodeTRXArray(entry.fileName, data) : null
+  }
+  const headerEntries: ZipEntry[] = []
+  const positionsEntries: ZipEntry[] = []
+  const offsetsEntries: ZipEntry[] = []
+  const dpvEntries: ZipEntry[] = []
+  const dpsEntries: ZipEntry[] = []
+  const groupEntries: ZipEntry[] = []
+  const dpgEntries: ZipEntry[] = []
+  for (const entry of zip.entries) {
+    const parts = entry.fileName.split('/')
+    const fname = parts.slice(-1)[0]
+    if (fname === '' || fname.startsWith('.')) {
+      continue // folder or hidden file
+    }
+    const pname = parts.length > 1 ? parts.slice(-2)[0] : ''
+    if (fname === 'header.json') {
+      headerEntries.push(entry)
+    } else if (!trxDtype(fname)) {
+      warn(entry.fileName, 'not a TRX array: unknown datatype')
+    } else if (parts.length > 2 && parts.slice(-3)[0] === 'dpg') {
+      dpgEntries.push(entry)
+    } else if (pname === 'groups') {
+      groupEntries.push(entry)
+    } else if (pname === 'dpv') {
+      dpvEntries.push(entry)
+    } else if (pname === 'dps') {
+      dpsEntries.push(entry)
+    } else if (fname.startsWith('positions.')) {
+      positionsEntries.push(entry)
+    } else if (fname.startsWith('offsets.')) {
+      offsetsEntries.push(entry)
+    } else {
+      warn(entry.fileName, 'not part of the TRX specification')
+    }
+  }
+  // a single header, positions and offsets
+  function single(entries: ZipEntry[], name: string): ZipEntry | null {
+    if (entries.length === 0) {
+      error(name, 'required entry is missing')
+      return null
+    }
+    for (const entry of entries.slice(1)) {
+      error(entry.fileName, `more than one ${name} entry`)
+    }
+    return entries[0]
+  }
+  const headerEntry = single(headerEntries, 'header.json')
+  let header: TRXHeader | null = null
+  const headerData = headerEntry ? await extract(headerEntry) : null
+  if (headerData) {
+    try {
+      header = parseTRXHeader(new TextDecoder().decode(headerData))
+    } catch (e) {
+      error(headerEntry!.fileName, (e as Error).message)
+    }
+  }
+  let nvert = -1
+  const positionsEntry = single(positionsEntries, 'positions')
+  if (positionsEntry) {
+    if (!/^positions\.3\.float(16|32|64)$/.test(positionsEntry.fileName.split('/').pop()!)) {
+      error(positionsEntry.fileName, 'positions must have 3 components of float16, float32 or float64')
+    }
+    const pts = await readArray(positionsEntry, 3)
+    if (pts) {
+      nvert = pts.length / 3
+      if (header && header.NB_VERTICES !== nvert) {
+        error(positionsEntry.fileName, `has ${nvert} vertices but NB_VERTICES is ${header.NB_VERTICES}`)
+      }
+      let nNonFinite = 0
+      for (let i = 0; i < pts.length; i++) {
+        if (!isFinite(pts[i])) {
+          nNonFinite++
+        }
+      }
+      if (nNonFinite > 0) {
+        warn(positionsEntry.fileName, `${nNonFinite} coordinates are not finite`)
+      }
+    }
+  }
+  let noff = -1
+  const offsetsEntry = single(offsetsEntries, 'offsets')
+  if (offsetsEntry) {
+    const dtype = trxDtype(offsetsEntry.fileName)
+    if (dtype !== 'uint32' && dtype !== 'uint64') {
+      error(offsetsEntry.fileName, `offsets must be uint32 or uint64, not ${dtype}`)
+    }
+    const offsets = await readArray(offsetsEntry)
+    if (offsets) {
+      noff = offsets.length
+      if (header && header.NB_STREAMLINES !== noff) {
+        error(offsetsEntry.fileName, `has ${noff} streamlines but NB_STREAMLINES is ${header.NB_STREAMLINES}`)
+      }
+      if (noff > 0 && offsets[0] !== 0) {
+        error(offsetsEntry.fileName, `first streamline must start at vertex 0, not ${offsets[0]}`)
+      }
+      let nEmpty = 0
+      for (let i = 1; i < noff; i++) {
+        if (offsets[i] < offsets[i - 1]) {
+          error(offsetsEntry.fileName, `offsets must not decrease: streamline ${i} starts before streamline ${i - 1}`)
+          break
+        }
+        if (offsets[i] === offsets[i - 1]) {
+          nEmpty++
+        }
+      }
+      if (nvert >= 0 && noff > 0 && offsets[noff - 1] > nvert) {
+        error(offsetsEntry.fileName, `final offset ${offsets[noff - 1]} exceeds the ${nvert} vertices`)
+      } else if (nvert >= 0 && noff > 0 && offsets[noff - 1] === nvert) {
+        nEmpty++
+      }
+      if (nEmpty > 0) {
+        warn(offsetsEntry.fileName, `${nEmpty} streamlines have no vertices`)
+      }
+    }
+  }
+  // dpv and dps have one item per vertex or streamline, with names that are unique
+  async function checkItems(entries: ZipEntry[], nItems: number, items: string): Promise<void> {
+    const names = new Set<string>()
+    for (const entry of entries) {
+      const [name, nComponents] = trxNameComponents(entry.fileName.split('/').pop()!)
+      if (names.has(name)) {
+        error(entry.fileName, `more than one array is named '${name}'`)
+      }
+      names.add(name)
+      if (nComponents < 1) {
+        error(entry.fileName, 'number of components must be at least 1')
+        continue
+      }
+      const vals = await readArray(entry, nComponents)
+      if (vals && nItems >= 0 && vals.length !== nItems * nComponents) {
+        error(entry.fileName, `has ${vals.length / nComponents} items but there are ${nItems} ${items}`)
+      }
+    }
+  }
+  await checkItems(dpvEntries, nvert, 'vertices')
+  await checkItems(dpsEntries, noff, 'streamlines')
+  const groupNames = new Set<string>()
+  for (const entry of groupEntries) {
+    const fname = entry.fileName.split('/').pop()!
+    groupNames.add(fname.slice(0, fname.lastIndexOf('.')))
+    const dtype = trxDtype(fname)!
+    if (dtype.startsWith('float')) {
+      error(entry.fileName, `group indices must be integers, not ${dtype}`)
+      continue
+    } else if (dtype !== 'uint32') {
+      warn(entry.fileName, `group indices should be uint32, not ${dtype}`)
+    }
+    const vals = await readArray(entry)
+    if (!vals || noff < 0) {
+      continue
+    }
+    const isMember = new Uint8Array(noff)
+    let nDuplicates = 0
+    for (let i = 0; i < vals.length; i++) {
+      if (vals[i] < 0 || vals[i] >= noff) {
+        error(entry.fileName, `refers to streamline ${vals[i]} but there are ${noff}`)
+        break
+      }
+      nDuplicates += isMember[vals[i]]
+      isMember[vals[i]] = 1
+    }
+    if (nDuplicates > 0) {
+      warn(entry.fileName, `${nDuplicates} streamlines are listed more than once`)
+    }
+  }
+  // dpg/group/name: one item (of one or more components) for a group that exists
+  for (const entry of dpgEntries) {
+    const group = entry.fileName.split('/').slice(-2)[0]
+    if (!groupNames.has(group)) {
+      error(entry.fileName, `there is no group '${group}'`)
+    }
+    const [, nComponents] = trxNameComponents(entry.fileName.split('/').pop()!)
+    const vals = await readArray(entry, Math.max(nComponents, 1))
+    if (vals && vals.length !== nComponents) {
+      warn(entry.fileName, `has ${vals.length} values but ${nComponents} components`)
+    }
+  }
+  return result()
+} // validateTRX()
+
+// Javascript does not support float16, round float32 to nearest even half precision
+function encodeFloat16(f32: Float32Array): Uint16Array {
+  const u32 = new Uint32Array(f32.buffer, f32.byteOffset, f32.length)
+  const u16 = new Uint16Array(f32.length)
+  for (let i = 0; i < f32.length; i++) {
+    const x = u32[i]
+    const sign = (x >>> 16) & 0x8000
+    const exponent = ((x >>> 23) & 0xff) - 127 + 15
+    let fraction = x & 0x7fffff
+    if (((x >>> 23) & 0xff) === 0xff) {
+      // Infinity or NaN
+      u16[i] = sign | 0x7c00 | (fraction ? 0x200 : 0)
+      continue
+    }
+    if (exponent >= 0x1f) {
+      u16[i] = sign | 0x7c00 // overflow to Infinity
+      continue
+    }
+    let shift = 13
+    let h = sign | (exponent << 10)
+    if (exponent <= 0) {
+      // subnormal half precision
+      if (exponent < -10) {
+        u16[i] = sign
+        continue
+      }
+      fraction |= 0x800000
+      shift = 14 - exponent
+      h = sign
+    }
+    h |= fraction >>> shift
+    const rem = fraction & ((1 << shift) - 1)
+    const half = 1 << (shift - 1)
+    if (rem > half || (rem === half && h & 1)) {
+      h++ // carry into exponent is the correct result
+    }
+    u16[i] = h
+  }
+  return u16
+} // encodeFloat16()
+
+// datatype of a typed array
+function typedArrayDtype(vals: TypedNumberArray): TRXDtype {
+  if (vals instanceof Float64Array) {
+    return 'float64'
+  } else if (vals instanceof Float32Array) {
+    return 'float32'
+  } else if (vals instanceof Uint32Array) {
+    return 'uint32'
+  } else if (vals instanceof Uint16Array) {
+    return 'uint16'
+  } else if (vals instanceof Uint8Array) {
+    return 'uint8'
+  } else if (vals instanceof Int32Array) {
+    return 'int32'
+  } else if (vals instanceof Int16Array) {
+    return 'int16'
+  }
+  return 'int8'
+} // typedArrayDtype()
+
+// dpv, dps and dpg values are saved in the datatype of their array, or as float16 or 64-bit integers
+// if that is their recorded dtype (e.g. read with preserveDtype)
+function encodeTRXValues(item: ValuesArray[number]): { dtype: TRXDtype; vals: TypedNumberArray } {
+  if (item.vals instanceof Float32Array && item.dtype === 'float16') {
+    return { dtype: 'float16', vals: encodeFloat16(item.vals) }
+  }
+  if (item.vals instanceof Float64Array && (item.dtype === 'int64' || item.dtype === 'uint64')) {
+    // lower and upper 32-bits of each value, two's complement for negative int64
+    const u32 = new Uint32Array(item.vals.length * 2)
+    for (let i = 0; i < item.vals.length; i++) {
+      const hi = Math.floor(item.vals[i] / 4294967296)
+      u32[i * 2] = item.vals[i] - hi * 4294967296
+      u32[i * 2 + 1] = hi
+    }
+    return { dtype: item.dtype, vals: u32 }
+  }
+  return { dtype: typedArrayDtype(item.vals), vals: item.vals }
+} // encodeTRXValues()
+
+// filename of a dpv, dps or dpg array, e.g. colors.3.uint8
+function trxFilename(item: ValuesArray[number], dtype: TRXDtype): string {
+  const n = item.nComponents ?? 1
+  if (!Number.isInteger(n) || n < 1) {
+    throw new Error(`'${item.id}' has ${n} components`)
+  }
+  return n > 1 ? `${item.id}.${n}.${dtype}` : `${item.id}.${dtype}`
+}
+
+// group and array names become file names in the archive: they cannot hold a path
+function checkTRXName(kind: string, name: string): void {
+  if (name === '' || name.includes('/') || name.includes('\\') || name.includes('..')) {
+    throw new Error(`${kind} name '${name}' must not be empty or contain '/', '\\' or '..'`)
+  }
+}
+
+// write TRX format tractogram, returns the bytes of the zip archive
+// offsetPt0 must include the fence post (offset after the final streamline)
+export async function writeTRX(trx: TRX, options: TRXWriteOptions = {}): Promise<Uint8Array> {
+  const { positionDtype = 'float32', offsetDtype = 'uint32', compress = false } = options
+  const nvert = trx.pts.length / 3
+  const nstreamlines = trx.offsetPt0.length - 1
+  if (nstreamlines < 0 || trx.offsetPt0[nstreamlines] !== nvert) {
+    throw new Error('TRX offsetPt0 must end with the number of vertices (fence post)')
+  }
+  const header: TRXHeader = {
+    DIMENSIONS: [1, 1, 1],
+    VOXEL_TO_RASMM: [
+      [1, 0, 0, 0],
+      [0, 1, 0, 0],
+      [0, 0, 1, 0],
+      [0, 0, 0, 1]
+    ],
+    ...trx.header,
+    NB_VERTICES: nvert,
+    NB_STREAMLINES: nstreamlines
+  }
+  // check everything before writing, so that the archive is valid for readTRX and validateTRX
+  function checkValues(kind: string, item: ValuesArray[number], nItems: number): void {
+    checkTRXName(kind, item.id)
+    const n = item.nComponents ?? 1
+    if (item.vals.length !== nItems * n) {
+      throw new Error(
+        `${kind} '${item.id}' has ${item.vals.length} values, expected ${nItems} items of ${n} components`
+      )
+    }
+  }
+  trx.dpv.forEach((item) => checkValues('dpv', item, nvert))
+  trx.dps.forEach((item) => checkValues('dps', item, nstreamlines))
+  for (const name in trx.groups) {
+    checkTRXName('group', name)
+    const indices = trx.groups[name]
+    for (let i = 0; i < indices.length; i++) {
+      if (!Number.isInteger(indices[i]) || indices[i] < 0 || indices[i] >= nstreamlines) {
+        throw new Error(`group '${name}' refers to streamline ${indices[i]} but there are ${nstreamlines}`)
+      }
+    }
+  }
+  for (const name in trx.dpg) {
+    if (!(name in trx.groups)) {
+      throw new Error(`dpg '${name}' has no matching group`)
+    }
+    trx.dpg[name].forEach((item) => checkValues(`dpg '${name}'`, item, 1))
+  }
+  function bytes(vals: AnyNumberArray): Uint8Array {
+    if (Array.isArray(vals)) {
+      throw new Error('TRX arrays must be typed')
+    }
+    return new Uint8Array(vals.buffer, vals.byteOffset, vals.byteLength)
+  }
+  const zip = new ZipWriter()
+  await zip.addFile('header.json', new TextEncoder().encode(JSON.stringify(header, null, 2)), compress)
+  let positions: AnyNumberArray = trx.pts
+  if (positionDtype === 'float16') {
+    positions = encodeFloat16(trx.pts)
+  } else if (positionDtype === 'float64') {
+    positions = Float64Array.from(trx.pts)
+  }
+  await zip.addFile(`positions.3.${positionDtype}`, bytes(positions), compress)
+  let offsets: AnyNumberArray = trx.offsetPt0.subarray(0, nstreamlines)
+  if (offsetDtype === 'uint64') {
+    // javascript does not have 64-bit integers! write lower and upper 32-bits
+    const u32 = new Uint32Array(nstreamlines * 2)
+    for (let i = 0; i < nstreamlines; i++) {
+      const hi = Math.floor(offsets[i] / 4294967296)
+      u32[i * 2] = offsets[i] - hi * 4294967296
+      u32[i * 2 + 1] = hi
+    }
+    offsets = u32
+  } else if (nvert > 0xffffffff) {
+    throw new Error(`TRX with ${nvert} vertices requires offsetDtype: 'uint64'`)
+  } else if (offsets instanceof Float64Array) {
+    offsets = Uint32Array.from(offsets)
+  }
+  await zip.addFile(`offsets.${offsetDtype}`, bytes(offsets), compress)
+  for (const item of trx.dpv) {
+    const { dtype, vals } = encodeTRXValues(item)
+    await zip.addFile(`dpv/${trxFilename(item, dtype)}`, bytes(vals), compress)
+  }
+  for (const item of trx.dps) {
+    const { dtype, vals } = encodeTRXValues(item)
+    await zip.addFile(`dps/${trxFilename(item, dtype)}`, bytes(vals), compress)
+  }
+  for (const name in trx.groups) {
+    await zip.addFile(`groups/${name}.uint32`, bytes(trx.groups[name]), compress)
+  }
+  for (const name in trx.dpg) {
+    for (const item of trx.dpg[name]) {
+      const { dtype, vals } = encodeTRXValues(item)
+      await zip.addFile(`dpg/${name}/${trxFilename(item, dtype)}`, bytes(vals), compress)
+    }
+  }
+  return zip.finish()
+} // writeTRX()
+
 // https://dsi-studio.labsolver.org/doc/cli_data.html
 // https://brain.labsolver.org/hcp_trk_atlas.html
 export async function readTT(buffer: ArrayBuffer): Promise<TT> {
@@ -482,3 +1798,288 @@ export async function readTT(buffer: ArrayBuffer): Promise<TT> {
     offsetPt0
   }
 } //readTT
+
+// attributes of a niml element: name="value" pairs, values may include XML entities
+function readNIMLAttributes(text: string): Record<string, string> {
+  const attributes: Record<string, string> = {}
+  for (const match of text.matchAll(/([\w.:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>/]+))/g)) {
+    attributes[match[1]] = (match[2] ?? match[3] ?? match[4])
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, "'")
+      .replace(/&amp;/g, '&')
+  }
+  return attributes
+}
+
+// read AFNI FATCAT niml.tract streamlines
+// a network element holds one tracts element per bundle, stored as text, base64 or binary
+// each tract is an id, the number of coordinates (3 per vertex) and the coordinates
+// https://afni.nimh.nih.gov/pub/dist/doc/htmldoc/tutorials/fatcat_prog/main_toc.html
+export function readNIML(buffer: ArrayBuffer): NIML {
+  const bytes = new Uint8Array(buffer)
+  const len = bytes.length
+  const decoder = new TextDecoder()
+  let pos = 0
+  // next tag: <name attributes>, <name attributes/> or </name>
+  function readTag(): { name: string; attributes: Record<string, string>; isEmpty: boolean } | null {
+    while (pos < len && bytes[pos] !== 60) {
+      pos++
+    } // skip to '<'
+    if (pos >= len) {
+      return null
+    }
+    const startPos = ++pos
+    let isQuoted = false
+    while (pos < len && (isQuoted || bytes[pos] !== 62)) {
+      if (bytes[pos] === 34) {
+        isQuoted = !isQuoted
+      }
+      pos++
+    } // find '>' that is not within an attribute value
+    const text = decoder.decode(bytes.subarray(startPos, pos)).trim()
+    pos++ // skip '>'
+    const name = /^\/?[^\s/]*/.exec(text)![0]
+    return { name, attributes: readNIMLAttributes(text.slice(name.length)), isEmpty: text.endsWith('/') }
+  }
+  // text up to the closing tag
+  function readText(): string {
+    const startPos = pos
+    while (pos < len && bytes[pos] !== 60) {
+      pos++
+    }
+    return decoder.decode(bytes.subarray(startPos, pos))
+  }
+  let tag = readTag()
+  if (!tag || tag.name !== 'network') {
+    throw new Error('Not a valid niml.tract file')
+  }
+  const header: NIMLHeader = tag.attributes
+  const pts: number[] = []
+  const offsets: number[] = [0]
+  const groups: TRXGroups = {}
+  let nBundles = 0
+  while ((tag = readTag())) {
+    if (tag.isEmpty || tag.name.startsWith('/')) {
+      continue
+    }
+    if (tag.name !== 'tracts') {
+      continue // other elements, e.g. typedefs
+    }
+    const form = tag.attributes.ni_form ?? 'text'
+    const nTracts = parseInt(tag.attributes.ni_dimen ?? '1')
+    const isBinary = form.startsWith('binary')
+    // numbers of the element, in order
+    let next: (isFloat: boolean) => number
+    let p = 0
+    if (isBinary || form.startsWith('base64')) {
+      const isLittleEndian = !form.endsWith('msbfirst')
+      const data = isBinary ? bytes.subarray(pos) : NVUtilities.b64toUint8(readText())
+      const reader = new DataView(data.buffer, data.byteOffset, data.byteLength)
+      next = (isFloat: boolean): number => {
+        if (p + 4 > data.length) {
+          throw new Error('niml.tract tracts element is truncated')
+        }
+        p += 4
+        return isFloat ? reader.getFloat32(p - 4, isLittleEndian) : reader.getInt32(p - 4, isLittleEndian)
+      }
+    } else {
+      const vals = readText().trim().split(/\s+/).map(Number)
+      next = (): number => {
+        if (p >= vals.length) {
+          throw new Error('niml.tract tracts element is truncated')
+        }
+        return vals[p++]
+      }
+    }
+    const first = offsets.length - 1
+    for (let i = 0; i < nTracts; i++) {
+      next(false) // tract id
+      const n = next(false)
+      if (n < 0 || n % 3 !== 0) {
+        throw new Error(`niml.tract tract has ${n} coordinates, not a multiple of 3`)
+      }
+      for (let j = 0; j < n; j += 3) {
+        // AFNI uses RAI (DICOM) coordinates, flip x and y for RAS
+        pts.push(-next(true), -next(true), next(true))
+      }
+      offsets.push(pts.length / 3)
+    }
+    if (isBinary) {
+      pos += p
+    }
+    // bundles are named by their tag, which may be repeated
+    const name = tag.attributes.Bundle_Name ?? tag.attributes.Bundle_Tag ?? String(nBundles)
+    const members = Array.from({ length: nTracts }, (_, i) => first + i)
+    groups[name] = groups[name] ? Uint32Array.from([...groups[name], ...members]) : Uint32Array.from(members)
+    nBundles++
+  }
+  return {
+    pts: Float32Array.from(pts),
+    offsetPt0: Uint32Array.from(offsets),
+    dps: [],
+    dpv: [],
+    groups,
+    header
+  }
+} // readNIML()
+
+// read Camino BFLOAT streamlines: big-endian float32 values
+// each streamline is the number of vertices, optionally the index of its seed vertex, then XYZ triplets
+// vertices are in mm as stored by Camino, use convertSpace with the reference image for world space
+// http://camino.cs.ucl.ac.uk/index.php?n=Man.Track
+export function readBFLOAT(buffer: ArrayBuffer, options: BFLOATReadOptions = {}): BFLOAT {
+  const reader = new DataView(buffer)
+  const nvals = Math.floor(buffer.byteLength / 4)
+  // returns null if the values are not consistent with the layout
+  function parse(hasSeedIndex: boolean): BFLOAT | null {
+    const pts = new Float32Array(nvals)
+    const offsets: number[] = [0]
+    const seeds: number[] = []
+    let npt3 = 0
+    let i = 0
+    while (i < nvals) {
+      const n_pts = reader.getFloat32(i * 4, false)
+      const seed = hasSeedIndex ? reader.getFloat32(i * 4 + 4, false) : 0
+      i += hasSeedIndex ? 2 : 1
+      if (!Number.isInteger(n_pts) || n_pts < 1 || i + n_pts * 3 > nvals) {
+        return null
+      }
+      if (!Number.isInteger(seed) || seed < 0 || seed >= n_pts) {
+        return null
+      }
+      for (let j = 0; j < n_pts * 3; j++) {
+        pts[npt3++] = reader.getFloat32((i + j) * 4, false)
+      }
+      i += n_pts * 3
+      offsets.push(npt3 / 3)
+      seeds.push(seed)
+    }
+    const dps = hasSeedIndex ? [{ id: 'seed_index', vals: Float32Array.from(seeds) }] : []
+    return { pts: pts.slice(0, npt3), offsetPt0: Uint32Array.from(offsets), dps }
+  }
+  const layouts = options.hasSeedIndex === undefined ? [true, false] : [options.hasSeedIndex]
+  for (const hasSeedIndex of layouts) {
+    const bfloat = parse(hasSeedIndex)
+    if (bfloat) {
+      return bfloat
+    }
+  }
+  throw new Error('Not a valid BFLOAT file')
+} // readBFLOAT()
+
+// read VISTA Lab (mrDiffusion, Quench) PDB version 3 streamlines
+// the header lists statistics, whose values are stored per streamline (dps) and optionally per vertex (dpv)
+// https://github.com/vistalab/pdb_files
+export function readPDB(buffer: ArrayBuffer): PDB {
+  const reader = new DataView(buffer)
+  const len = buffer.byteLength
+  let pos = 0
+  function readUint32(): number {
+    const v = reader.getUint32(pos, true)
+    pos += 4
+    return v
+  }
+  function readStr(n: number): string {
+    const arr = new Uint8Array(buffer, pos, n)
+    const str = new TextDecoder().decode(arr).split('\0').shift()!.trim()
+    pos += n
+    return str
+  }
+  function readFloat64s(n: number): Float64Array {
+    if (pos + n * 8 > len) {
+      throw new Error('PDB file is truncated')
+    }
+    const vals = new Float64Array(n)
+    for (let i = 0; i < n; i++) {
+      vals[i] = reader.getFloat64(pos + i * 8, true)
+    }
+    pos += n * 8
+    return vals
+  }
+  if (len < 140) {
+    throw new Error('File too small to be PDB: bytes = ' + len)
+  }
+  const headerSize = readUint32()
+  const transform = Array.from(readFloat64s(16))
+  // the format stores the matrix row-major (as Quench reads it), but some Matlab writers store it column-major
+  // only a translation in the last row identifies a column-major matrix
+  const isTranslationInColumn = transform[3] !== 0 || transform[7] !== 0 || transform[11] !== 0
+  const isTranslationInRow = transform[12] !== 0 || transform[13] !== 0 || transform[14] !== 0
+  if (isTranslationInRow && !isTranslationInColumn && transform[15] === 1) {
+    const [m0, m1, m2, m3] = [0, 1, 2, 3].map((r) => [0, 1, 2, 3].map((c) => transform[c * 4 + r]))
+    transform.splice(0, 16, ...m0, ...m1, ...m2, ...m3)
+  } else if (!isTranslationInRow && !isTranslationInColumn) {
+    const isSymmetric = [1, 2, 6].every((i) => transform[i] === transform[(i % 4) * 4 + Math.floor(i / 4)])
+    if (!isSymmetric) {
+      log.warn('PDB transform has no translation, so its order is ambiguous: assuming row-major')
+    }
+  }
+  const nStats = readUint32()
+  if (headerSize > len || nStats > 1000) {
+    throw new Error('Not a valid PDB file')
+  }
+  const stats: PDBStatistic[] = []
+  for (let i = 0; i < nStats; i++) {
+    const isLuminanceEncoding = readUint32() !== 0
+    const isPerPoint = readUint32() !== 0
+    const isViewable = readUint32() !== 0
+    const name = readStr(255)
+    const localName = readStr(255)
+    pos += 2 // C struct padding aligns uid
+    stats.push({ name, localName, isPerPoint, isLuminanceEncoding, isViewable, uid: readUint32() })
+  }
+  const algorithms = []
+  const nAlgorithms = readUint32()
+  for (let i = 0; i < nAlgorithms; i++) {
+    const name = readStr(255)
+    const comments = readStr(255)
+    pos += 2 // C struct padding aligns uid
+    algorithms.push({ name, comments, uid: readUint32() })
+  }
+  const version = readUint32()
+  if (version !== 3) {
+    throw new Error(`Only version 3 PDB files are supported, not version ${version}`)
+  }
+  // the padding of statistics and algorithms is inferred, the stored header size checks it
+  if (pos !== headerSize) {
+    log.warn(`PDB header is ${headerSize} bytes but ${pos} were read: statistic names may be wrong`)
+  }
+  pos = headerSize
+  const nPaths = readUint32()
+  if (pos + nPaths * 4 > len) {
+    throw new Error('PDB file is truncated')
+  }
+  const offsetPt0 = new Uint32Array(nPaths + 1)
+  for (let i = 0; i < nPaths; i++) {
+    offsetPt0[i + 1] = offsetPt0[i] + readUint32()
+  }
+  const npt = offsetPt0[nPaths]
+  const xyz = readFloat64s(npt * 3)
+  const m = transform
+  const pts = new Float32Array(npt * 3)
+  for (let v = 0; v < npt * 3; v += 3) {
+    const x = xyz[v]
+    const y = xyz[v + 1]
+    const z = xyz[v + 2]
+    pts[v] = m[0] * x + m[1] * y + m[2] * z + m[3]
+    pts[v + 1] = m[4] * x + m[5] * y + m[6] * z + m[7]
+    pts[v + 2] = m[8] * x + m[9] * y + m[10] * z + m[11]
+  }
+  // aggregate value of every statistic for each streamline, then per vertex values
+  const dps = stats.map((stat, i) => ({ id: stat.name || `stat${i}`, vals: Float32Array.from(readFloat64s(nPaths)) }))
+  const dpv = []
+  for (let i = 0; i < nStats; i++) {
+    if (stats[i].isPerPoint) {
+      dpv.push({ id: stats[i].localName || stats[i].name || `stat${i}`, vals: Float32Array.from(readFloat64s(npt)) })
+    }
+  }
+  return {
+    pts,
+    offsetPt0,
+    dps,
+    dpv,
+    header: { version, transform, stats, algorithms }
+  }
+} // readPDB()
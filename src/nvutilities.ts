@@ -1,22 +1,15 @@
+import { TypedNumberArray } from './nvmesh-types.js'
+import { decompressZstd, isZstd } from './zstd.js'
+
 /**
  * Namespace for utility functions
  * @ignore
  */
 
-// TODO: TypedNumberArray also in nvmesh-types.ts
-type TypedNumberArray =
-  | Float64Array
-  | Float32Array
-  | Uint32Array
-  | Uint16Array
-  | Uint8Array
-  | Int32Array
-  | Int16Array
-  | Int8Array
-
 /**
- * Read ZIP files using asynchronous compression streams API, supports data descriptors
- * todo: check ZIP64 support
+ * Read ZIP files using asynchronous compression streams API
+ * Entries are listed from the central directory (using the ZIP64 end records for large archives),
+ * so data descriptors and stored data that happens to contain zip signatures are handled
  * https://github.com/libyal/assorted/blob/main/documentation/ZIP%20archive%20format.asciidoc
  * https://en.wikipedia.org/wiki/ZIP_(file_format)
  * https://pkware.cachefly.net/webdocs/casestudies/APPNOTE.TXT
@@ -44,6 +37,12 @@ interface Entry {
 interface CentralDirectoryEntry {
   versionCreated: number
   versionNeeded: number
+  generalPurpose: number
+  compressionMethod: number
+  crc: number
+  compressedSize: number
+  uncompressedSize: number
+  fileName: string
   fileCommentLength: number
   diskNumber: number
   internalAttributes: number
@@ -65,145 +64,211 @@ interface EndOfCentralDirectory {
   comment: string
 }
 
+export interface ZipReadOptions {
+  // compare the CRC-32 of each extracted entry with the value recorded in the archive
+  verifyCRC?: boolean
+  // return stored entries as views of the archive buffer rather than copies
+  zeroCopy?: boolean
+}
+
+// names of compression methods that may be found in zip files but are not supported
+const compressionMethodNames: Record<number, string> = {
+  1: 'shrink',
+  6: 'implode',
+  9: 'deflate64',
+  12: 'bzip2',
+  14: 'lzma',
+  95: 'xz',
+  98: 'ppmd',
+  99: 'AES encryption'
+}
+
+// characters 128..255 of code page 437, the encoding of zip file names without the UTF-8 flag
+const CP437_HIGH =
+  'ÇüéâäàåçêëèïîìÄÅÉæÆôöòûùÿÖÜ¢£¥₧ƒáíóúñÑªº¿⌐¬½¼¡«»░▒▓│┤╡╢╖╕╣║╗╝╜╛┐└┴┬├─┼╞╟╚╔╩╦╠═╬╧╨╤╥╙╘╒╓╫╪┘┌█▄▌▐▀αßΓπΣσµτΦΘΩδ∞φε∩≡±≥≤⌠⌡÷≈°∙·√ⁿ²■\u00a0'
+
 export class Zip {
   #dataView: DataView
-  #index: number = 0
+  #verifyCRC: boolean
+  #zeroCopy: boolean
   #localFiles: Entry[] = []
   #centralDirectories: CentralDirectoryEntry[] = []
   #endOfCentralDirectory?: EndOfCentralDirectory
 
-  constructor(arrayBuffer: ArrayBuffer) {
+  constructor(arrayBuffer: ArrayBuffer, options: ZipReadOptions = {}) {
     this.#dataView = new DataView(arrayBuffer)
+    this.#verifyCRC = options.verifyCRC ?? false
+    this.#zeroCopy = options.zeroCopy ?? false
     this.read()
   }
 
   async extract(entry: Entry): Promise<Uint8Array> {
-    const buffer = new Uint8Array(this.#dataView.buffer.slice(entry.startsAt!, entry.startsAt! + entry.compressedSize))
+    if (entry.generalPurpose & 0x0001 || entry.compressionMethod === 99) {
+      throw new Error(`ZIP entry ${entry.fileName} is encrypted, which is not supported`)
+    }
+    if (entry.startsAt! + entry.compressedSize > this.#dataView.byteLength) {
+      throw new Error(`ZIP entry ${entry.fileName} is truncated`)
+    }
+    const buffer = new Uint8Array(this.#dataView.buffer, entry.startsAt!, entry.compressedSize)
+    let result: Uint8Array
     if (entry.compressionMethod === 0x00) {
-      return buffer
+      result = this.#zeroCopy ? buffer : buffer.slice()
     } else if (entry.compressionMethod === 0x08) {
       const stream = new DecompressionStream('deflate-raw')
       const writer = stream.writable.getWriter()
       writer.write(buffer).catch(console.error)
       const closePromise = writer.close().catch(console.error)
       const response = new Response(stream.readable)
-      const result = new Uint8Array(await response.arrayBuffer())
+      result = new Uint8Array(await response.arrayBuffer())
       await closePromise
-      return result
+    } else if (entry.compressionMethod === 93) {
+      result = decompressZstd(buffer)
+    } else {
+      const name = compressionMethodNames[entry.compressionMethod] ?? 'unknown'
+      throw new Error(
+        `ZIP entry ${entry.fileName} uses unsupported compression method ${entry.compressionMethod} (${name}), only stored, deflate and zstd are supported`
+      )
+    }
+    if (result.length !== entry.uncompressedSize) {
+      throw new Error(`ZIP entry ${entry.fileName} is ${result.length} bytes, expected ${entry.uncompressedSize}`)
     }
-    throw new Error(`Unsupported compression method: ${entry.compressionMethod}`)
+    if (this.#verifyCRC && NVUtilities.crc32(result) !== entry.crc) {
+      throw new Error(`ZIP entry ${entry.fileName} is corrupt (CRC-32 mismatch)`)
+    }
+    return result
   }
 
   private read(): void {
-    while (!this.#endOfCentralDirectory && this.#index < this.#dataView.byteLength) {
-      const signature = this.#dataView.getUint32(this.#index, true)
-      if (signature === 0x04034b50) {
-        const entry = this.readLocalFile(this.#index)
-        entry.extract = this.extract.bind(this, entry)
-        this.#localFiles.push(entry)
-        const hasDataDescriptor = (entry.generalPurpose & 0x0008) !== 0
-        entry.startsAt = this.#index + 30 + entry.fileNameLength + entry.extraLength
-        if (entry.compressedSize === 0 && hasDataDescriptor) {
-          let scanIndex = entry.startsAt
-          while (scanIndex! + 20 <= this.#dataView.byteLength) {
-            const possibleSignature = this.#dataView.getUint32(scanIndex!, true)
-            if (possibleSignature === 0x08074b50) {
-              const nextPK = this.#dataView.getUint16(scanIndex! + 16, true) === 0x4b50
-              if (nextPK) {
-                scanIndex! += 4
-                break
-              }
-            }
-            scanIndex!++
-          }
-          entry.crc = this.#dataView.getUint32(scanIndex!, true)
-          entry.compressedSize = this.#dataView.getUint32(scanIndex! + 4, true)
-          entry.uncompressedSize = this.#dataView.getUint32(scanIndex! + 8, true)
-          this.#index = scanIndex! + 12
-        } else {
-          this.#index = entry.startsAt + entry.compressedSize
-        }
-      } else if (signature === 0x02014b50) {
-        const entry = this.readCentralDirectory(this.#index)
-        this.#centralDirectories.push(entry)
-        this.#index += 46 + entry.fileNameLength + entry.extraLength + entry.fileCommentLength
-      } else if (signature === 0x06054b50) {
-        this.#endOfCentralDirectory = this.readEndCentralDirectory(this.#index)
-        break
-      } else if (signature === 0x06064b50) {
-        this.#endOfCentralDirectory = this.readEndCentralDirectory64(this.#index)
-        break
-      } else {
-        console.error(`Unexpected ZIP signature 0x${signature.toString(16).padStart(8, '0')} at index ${this.#index}`)
+    // the end of central directory record is at the end of the file, before a comment of up to 65535 bytes
+    let endOffset = -1
+    for (let i = this.#dataView.byteLength - 22; i >= Math.max(0, this.#dataView.byteLength - 22 - 0xffff); i--) {
+      // comment length disambiguates a signature that happens to appear within the comment
+      if (
+        this.#dataView.getUint32(i, true) === 0x06054b50 &&
+        i + 22 + this.#dataView.getUint16(i + 20, true) <= this.#dataView.byteLength
+      ) {
+        endOffset = i
         break
       }
     }
+    if (endOffset < 0) {
+      throw new Error('Not a ZIP archive: unable to find the end of central directory record')
+    }
+    const end = this.readEndCentralDirectory(endOffset)
+    this.#endOfCentralDirectory = end
+    // ZIP64 end of central directory locator precedes the end of central directory record
+    const locatorOffset = endOffset - 20
+    if (locatorOffset >= 0 && this.#dataView.getUint32(locatorOffset, true) === 0x07064b50) {
+      const end64Offset = Number(this.#dataView.getBigUint64(locatorOffset + 8, true))
+      if (end64Offset + 56 > this.#dataView.byteLength || this.#dataView.getUint32(end64Offset, true) !== 0x06064b50) {
+        throw new Error(`Invalid ZIP64 end of central directory record at index ${end64Offset}`)
+      }
+      // the comment is only stored in the end of central directory record
+      this.#endOfCentralDirectory = {
+        ...this.readEndCentralDirectory64(end64Offset),
+        commentLength: end.commentLength,
+        comment: end.comment
+      }
+    }
+    if (this.#endOfCentralDirectory.numberOfDisks > 0) {
+      throw new Error('Spanned (multi-disk) ZIP archives are not supported')
+    }
+    let offset = this.#endOfCentralDirectory.centralDirectoryOffset
+    for (let i = 0; i < this.#endOfCentralDirectory.numberCentralDirectoryRecords; i++) {
+      if (offset + 46 > this.#dataView.byteLength || this.#dataView.getUint32(offset, true) !== 0x02014b50) {
+        throw new Error(`Invalid ZIP central directory entry at index ${offset}`)
+      }
+      const directory = this.readCentralDirectory(offset)
+      this.#centralDirectories.push(directory)
+      offset += 46 + directory.fileNameLength + directory.extraLength + directory.fileCommentLength
+      this.#localFiles.push(this.readLocalFile(directory))
+    }
   }
 
-  private readLocalFile(offset: number): Entry {
-    let compressedSize = this.#dataView.getUint32(offset + 18, true)
-    let uncompressedSize = this.#dataView.getUint32(offset + 22, true)
+  // sizes come from the central directory: local headers may defer them to a data descriptor
+  private readLocalFile(directory: CentralDirectoryEntry): Entry {
+    const offset = directory.offset
+    if (offset + 30 > this.#dataView.byteLength || this.#dataView.getUint32(offset, true) !== 0x04034b50) {
+      throw new Error(`Invalid ZIP local file header for ${directory.fileName} at index ${offset}`)
+    }
     const fileNameLength = this.#dataView.getUint16(offset + 26, true)
     const extraLength = this.#dataView.getUint16(offset + 28, true)
-    const extraOffset = offset + 30 + fileNameLength
-    const extra = this.readString(extraOffset, extraLength)
-    if (compressedSize === 0xffffffff && uncompressedSize === 0xffffffff) {
-      let zip64Offset = extraOffset
-      let foundZip64 = false
-      while (zip64Offset < extraOffset + extraLength - 4) {
-        const fieldSignature = this.#dataView.getUint16(zip64Offset, true)
-        const fieldLength = this.#dataView.getUint16(zip64Offset + 2, true)
-        zip64Offset += 4 // Move past signature and length
-        if (fieldSignature === 0x0001) {
-          // ZIP64 Extended Information Extra Field
-          if (fieldLength >= 16) {
-            // Ensure we have enough bytes
-            uncompressedSize = Number(this.#dataView.getBigUint64(zip64Offset, true))
-            zip64Offset += 8
-            compressedSize = Number(this.#dataView.getBigUint64(zip64Offset, true))
-            foundZip64 = true
-            break
-          } else {
-            throw new Error(
-              `ZIP64 extra field found but is too small (expected at least 16 bytes, got ${fieldLength}).`
-            )
-          }
-        }
-        zip64Offset += fieldLength // Move to the next extra field
-      }
-      if (!foundZip64) {
-        throw new Error('ZIP64 format missing extra field with signature 0x0001.')
-      }
-    }
-    return {
+    const entry: Entry = {
       signature: this.readString(offset, 4),
       version: this.#dataView.getUint16(offset + 4, true),
-      generalPurpose: this.#dataView.getUint16(offset + 6, true),
-      compressionMethod: this.#dataView.getUint16(offset + 8, true),
+      generalPurpose: directory.generalPurpose,
+      compressionMethod: directory.compressionMethod,
       lastModifiedTime: this.#dataView.getUint16(offset + 10, true),
       lastModifiedDate: this.#dataView.getUint16(offset + 12, true),
-      crc: this.#dataView.getUint32(offset + 14, true),
-      compressedSize,
-      uncompressedSize,
+      crc: directory.crc,
+      compressedSize: directory.compressedSize,
+      uncompressedSize: directory.uncompressedSize,
       fileNameLength,
       extraLength,
-      fileName: this.readString(offset + 30, fileNameLength),
-      extra: this.readString(offset + 30 + fileNameLength, extraLength)
+      fileName: directory.fileName,
+      extra: this.readString(offset + 30 + fileNameLength, extraLength),
+      startsAt: offset + 30 + fileNameLength + extraLength
     }
+    entry.extract = this.extract.bind(this, entry)
+    return entry
   }
 
   private readCentralDirectory(offset: number): CentralDirectoryEntry {
+    const generalPurpose = this.#dataView.getUint16(offset + 8, true)
+    const fileNameLength = this.#dataView.getUint16(offset + 28, true)
+    const extraLength = this.#dataView.getUint16(offset + 30, true)
+    const fileCommentLength = this.#dataView.getUint16(offset + 32, true)
+    let compressedSize = this.#dataView.getUint32(offset + 20, true)
+    let uncompressedSize = this.#dataView.getUint32(offset + 24, true)
+    let localOffset = this.#dataView.getUint32(offset + 42, true)
+    // ZIP64 extra field only lists the values that overflow, in this order
+    let extraOffset = offset + 46 + fileNameLength
+    const extraEnd = extraOffset + extraLength
+    while (extraOffset + 4 <= extraEnd) {
+      const fieldSignature = this.#dataView.getUint16(extraOffset, true)
+      const fieldLength = this.#dataView.getUint16(extraOffset + 2, true)
+      if (fieldSignature === 0x0001) {
+        let fieldOffset = extraOffset + 4
+        const fieldEnd = fieldOffset + fieldLength
+        const readUint64 = (): number => {
+          if (fieldOffset + 8 > fieldEnd) {
+            throw new Error(`ZIP64 extra field is too small (${fieldLength} bytes) at index ${extraOffset}`)
+          }
+          fieldOffset += 8
+          return Number(this.#dataView.getBigUint64(fieldOffset - 8, true))
+        }
+        if (uncompressedSize === 0xffffffff) {
+          uncompressedSize = readUint64()
+        }
+        if (compressedSize === 0xffffffff) {
+          compressedSize = readUint64()
+        }
+        if (localOffset === 0xffffffff) {
+          localOffset = readUint64()
+        }
+        break
+      }
+      extraOffset += 4 + fieldLength
+    }
+    // general purpose bit 11: file name and comment are UTF-8, otherwise code page 437
+    const isUTF8 = (generalPurpose & 0x0800) !== 0
     return {
       versionCreated: this.#dataView.getUint16(offset + 4, true),
       versionNeeded: this.#dataView.getUint16(offset + 6, true),
-      fileNameLength: this.#dataView.getUint16(offset + 28, true),
-      extraLength: this.#dataView.getUint16(offset + 30, true),
-      fileCommentLength: this.#dataView.getUint16(offset + 32, true),
+      generalPurpose,
+      compressionMethod: this.#dataView.getUint16(offset + 10, true),
+      crc: this.#dataView.getUint32(offset + 16, true),
+      compressedSize,
+      uncompressedSize,
+      fileNameLength,
+      extraLength,
+      fileCommentLength,
       diskNumber: this.#dataView.getUint16(offset + 34, true),
       internalAttributes: this.#dataView.getUint16(offset + 36, true),
       externalAttributes: this.#dataView.getUint32(offset + 38, true),
-      offset: this.#dataView.getUint32(offset + 42, true),
-      comments: this.readString(offset + 46, this.#dataView.getUint16(offset + 32, true))
+      offset: localOffset,
+      fileName: this.readString(offset + 46, fileNameLength, isUTF8),
+      comments: this.readString(offset + 46 + fileNameLength + extraLength, fileCommentLength, isUTF8)
     }
   }
 
@@ -221,8 +286,8 @@ export class Zip {
     }
   }
 
+  // offset + 4 is the size of the remainder of the record, which has no comment
   private readEndCentralDirectory64(offset: number): EndOfCentralDirectory {
-    const commentLength = Number(this.#dataView.getBigUint64(offset + 0, true))
     return {
       numberOfDisks: this.#dataView.getUint32(offset + 16, true),
       centralDirectoryStartDisk: this.#dataView.getUint32(offset + 20, true),
@@ -230,13 +295,19 @@ export class Zip {
       numberCentralDirectoryRecords: Number(this.#dataView.getBigUint64(offset + 32, true)),
       centralDirectorySize: Number(this.#dataView.getBigUint64(offset + 40, true)),
       centralDirectoryOffset: Number(this.#dataView.getBigUint64(offset + 48, true)),
-      commentLength,
+      commentLength: 0,
       comment: ''
     }
   }
 
-  private readString(offset: number, length: number): string {
-    return Array.from({ length }, (_, i) => String.fromCharCode(this.#dataView.getUint8(offset + i))).join('')
+  private readString(offset: number, length: number, isUTF8: boolean = false): string {
+    if (isUTF8) {
+      return new TextDecoder().decode(new Uint8Array(this.#dataView.buffer, offset, length))
+    }
+    return Array.from({ length }, (_, i) => {
+      const c = this.#dataView.getUint8(offset + i)
+      return c < 128 ? String.fromCharCode(c) : CP437_HIGH[c - 128]
+    }).join('')
   }
 
   get entries(): Entry[] {
@@ -244,8 +315,189 @@ export class Zip {
   }
 }
 
+interface WriterEntry {
+  fileName: Uint8Array
+  compressionMethod: number
+  crc: number
+  compressedSize: number
+  uncompressedSize: number
+  offset: number
+  time: number
+  date: number
+}
+
+/**
+ * Write ZIP files, entries are either stored or compressed with the compression streams API
+ * ZIP64 extra fields and end of central directory records are emitted only when required
+ * (entries or offsets beyond 4GB, or more than 65535 entries)
+ */
+export class ZipWriter {
+  #chunks: Uint8Array[] = []
+  #entries: WriterEntry[] = []
+  #index: number = 0
+
+  async addFile(fileName: string, data: Uint8Array, compress: boolean = false): Promise<void> {
+    const name = new TextEncoder().encode(fileName)
+    let payload = data
+    let compressionMethod = 0x00
+    if (compress && data.length > 0) {
+      payload = await NVUtilities.compress(data, 'deflate-raw')
+      compressionMethod = 0x08
+    }
+    const now = new Date()
+    const entry: WriterEntry = {
+      fileName: name,
+      compressionMethod,
+      crc: NVUtilities.crc32(data),
+      compressedSize: payload.length,
+      uncompressedSize: data.length,
+      offset: this.#index,
+      time: (now.getHours() << 11) | (now.getMinutes() << 5) | (now.getSeconds() >> 1),
+      date: ((Math.max(now.getFullYear(), 1980) - 1980) << 9) | ((now.getMonth() + 1) << 5) | now.getDate()
+    }
+    const isZip64 = entry.compressedSize >= 0xffffffff || entry.uncompressedSize >= 0xffffffff
+    const zip64Length = isZip64 ? 20 : 0
+    // pad stored data to 8-byte alignment so readers can view it as typed arrays without copying
+    let padLength = 0
+    if (compressionMethod === 0x00) {
+      padLength = (8 - ((this.#index + 30 + name.length + zip64Length) % 8)) % 8
+      if (padLength > 0 && padLength < 4) {
+        padLength += 8 // room for the extra field header
+      }
+    }
+    const extraLength = zip64Length + padLength
+    const header = new Uint8Array(30 + name.length + extraLength)
+    const view = new DataView(header.buffer)
+    view.setUint32(0, 0x04034b50, true)
+    view.setUint16(4, isZip64 ? 45 : 20, true) // version needed to extract
+    view.setUint16(6, 0x0800, true) // general purpose: UTF-8 file names
+    view.setUint16(8, compressionMethod, true)
+    view.setUint16(10, entry.time, true)
+    view.setUint16(12, entry.date, true)
+    view.setUint32(14, entry.crc, true)
+    view.setUint32(18, isZip64 ? 0xffffffff : entry.compressedSize, true)
+    view.setUint32(22, isZip64 ? 0xffffffff : entry.uncompressedSize, true)
+    view.setUint16(26, name.length, true)
+    view.setUint16(28, extraLength, true)
+    header.set(name, 30)
+    if (isZip64) {
+      // ZIP64 Extended Information Extra Field: local headers store both sizes
+      const extraOffset = 30 + name.length
+      view.setUint16(extraOffset, 0x0001, true)
+      view.setUint16(extraOffset + 2, 16, true)
+      view.setBigUint64(extraOffset + 4, BigInt(entry.uncompressedSize), true)
+      view.setBigUint64(extraOffset + 12, BigInt(entry.compressedSize), true)
+    }
+    if (padLength > 0) {
+      // alignment extra field (as used by Android zipalign), the remaining bytes are zero
+      const extraOffset = 30 + name.length + zip64Length
+      view.setUint16(extraOffset, 0xd935, true)
+      view.setUint16(extraOffset + 2, padLength - 4, true)
+    }
+    this.#push(header)
+    this.#push(payload)
+    this.#entries.push(entry)
+  }
+
+  /**
+   * Append the central directory and return the complete archive
+   */
+  finish(): Uint8Array {
+    const centralDirectoryOffset = this.#index
+    for (const entry of this.#entries) {
+      // only values that overflow 32-bits are written to the ZIP64 extra field, in this order
+      const zip64: number[] = []
+      if (entry.uncompressedSize >= 0xffffffff) {
+        zip64.push(entry.uncompressedSize)
+      }
+      if (entry.compressedSize >= 0xffffffff) {
+        zip64.push(entry.compressedSize)
+      }
+      if (entry.offset >= 0xffffffff) {
+        zip64.push(entry.offset)
+      }
+      const extraLength = zip64.length > 0 ? 4 + zip64.length * 8 : 0
+      const record = new Uint8Array(46 + entry.fileName.length + extraLength)
+      const view = new DataView(record.buffer)
+      view.setUint32(0, 0x02014b50, true)
+      view.setUint16(4, 45, true) // version made by
+      view.setUint16(6, zip64.length > 0 ? 45 : 20, true) // version needed to extract
+      view.setUint16(8, 0x0800, true)
+      view.setUint16(10, entry.compressionMethod, true)
+      view.setUint16(12, entry.time, true)
+      view.setUint16(14, entry.date, true)
+      view.setUint32(16, entry.crc, true)
+      view.setUint32(20, Math.min(entry.compressedSize, 0xffffffff), true)
+      view.setUint32(24, Math.min(entry.uncompressedSize, 0xffffffff), true)
+      view.setUint16(28, entry.fileName.length, true)
+      view.setUint16(30, extraLength, true)
+      // 32: comment length, 34: disk number, 36: internal attributes, 38: external attributes
+      view.setUint32(42, Math.min(entry.offset, 0xffffffff), true)
+      record.set(entry.fileName, 46)
+      if (zip64.length > 0) {
+        let extraOffset = 46 + entry.fileName.length
+        view.setUint16(extraOffset, 0x0001, true)
+        view.setUint16(extraOffset + 2, zip64.length * 8, true)
+        extraOffset += 4
+        for (const v of zip64) {
+          view.setBigUint64(extraOffset, BigInt(v), true)
+          extraOffset += 8
+        }
+      }
+      this.#push(record)
+    }
+    const centralDirectorySize = this.#index - centralDirectoryOffset
+    const nEntries = this.#entries.length
+    if (nEntries >= 0xffff || centralDirectoryOffset >= 0xffffffff || centralDirectorySize >= 0xffffffff) {
+      const endOfCentralDirectory64Offset = this.#index
+      const record = new Uint8Array(56 + 20)
+      const view = new DataView(record.buffer)
+      view.setUint32(0, 0x06064b50, true)
+      view.setBigUint64(4, BigInt(56 - 12), true) // size of remaining record
+      view.setUint16(12, 45, true) // version made by
+      view.setUint16(14, 45, true) // version needed to extract
+      // 16: number of this disk, 20: disk with start of central directory
+      view.setBigUint64(24, BigInt(nEntries), true)
+      view.setBigUint64(32, BigInt(nEntries), true)
+      view.setBigUint64(40, BigInt(centralDirectorySize), true)
+      view.setBigUint64(48, BigInt(centralDirectoryOffset), true)
+      // ZIP64 end of central directory locator
+      view.setUint32(56, 0x07064b50, true)
+      view.setBigUint64(64, BigInt(endOfCentralDirectory64Offset), true)
+      view.setUint32(72, 1, true) // total number of disks
+      this.#push(record)
+    }
+    const end = new Uint8Array(22)
+    const view = new DataView(end.buffer)
+    view.setUint32(0, 0x06054b50, true)
+    view.setUint16(8, Math.min(nEntries, 0xffff), true)
+    view.setUint16(10, Math.min(nEntries, 0xffff), true)
+    view.setUint32(12, Math.min(centralDirectorySize, 0xffffffff), true)
+    view.setUint32(16, Math.min(centralDirectoryOffset, 0xffffffff), true)
+    this.#push(end)
+    const out = new Uint8Array(this.#index)
+    let pos = 0
+    for (const chunk of this.#chunks) {
+      out.set(chunk, pos)
+      pos += chunk.length
+    }
+    return out
+  }
+
+  #push(chunk: Uint8Array): void {
+    this.#chunks.push(chunk)
+    this.#index += chunk.length
+  }
+}
+
+let crcTable: Uint32Array | null = null
+
 export class NVUtilities {
   static async decompress(data: Uint8Array): Promise<Uint8Array> {
+    if (isZstd(data)) {
+      // not supported by DecompressionStream
+      return decompressZstd(data)
+    }
     const format =
       data[0] === 31 && data[1] === 139 && data[2] === 8
         ? 'gzip'
@@ -263,6 +515,57 @@ export class NVUtilities {
     return result
   }
 
+  static async compress(data: Uint8Array, format: CompressionFormat = 'gzip'): Promise<Uint8Array> {
+    const stream = new CompressionStream(format)
+    const writer = stream.writable.getWriter()
+    // write and read concurrently: awaiting the write first could stall on backpressure
+    // any rejection propagates, so a stream error never resolves with truncated data
+    const [, , compressed] = await Promise.all([
+      writer.write(data),
+      writer.close(),
+      new Response(stream.readable).arrayBuffer()
+    ])
+    return new Uint8Array(compressed)
+  }
+
+  static uint8tob64(bytes: Uint8Array): string {
+    // convert in chunks: String.fromCharCode has a limited number of arguments
+    let binary = ''
+    const chunkSize = 0x8000
+    for (let i = 0; i < bytes.length; i += chunkSize) {
+      binary += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + chunkSize)))
+    }
+    return btoa(binary)
+  }
+
+  static b64toUint8(base64: string): Uint8Array {
+    const binary = atob(base64.replace(/\s/g, ''))
+    const bytes = new Uint8Array(binary.length)
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i)
+    }
+    return bytes
+  }
+
+  // standard CRC-32 (polynomial 0xEDB88320) as used by zip and gzip
+  static crc32(data: Uint8Array, crc: number = 0): number {
+    if (!crcTable) {
+      crcTable = new Uint32Array(256)
+      for (let n = 0; n < 256; n++) {
+        let c = n
+        for (let k = 0; k < 8; k++) {
+          c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+        }
+        crcTable[n] = c >>> 0
+      }
+    }
+    crc = ~crc >>> 0
+    for (let i = 0; i < data.length; i++) {
+      crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+    }
+    return ~crc >>> 0
+  }
+
   static async readMatV4(buffer: ArrayBuffer): Promise<Record<string, TypedNumberArray>> {
     let len = buffer.byteLength
     if (len < 40) {
@@ -271,8 +574,8 @@ export class NVUtilities {
     let reader = new DataView(buffer)
     let magic = reader.getUint16(0, true)
     let _buffer = buffer
-    if (magic === 35615 || magic === 8075) {
-      // gzip signature 0x1F8B in little and big endian
+    if (magic === 35615 || magic === 8075 || isZstd(new Uint8Array(buffer, 0, 4))) {
+      // gzip signature 0x1F8B in little and big endian, or zstd
       const raw = await this.decompress(new Uint8Array(buffer))
       reader = new DataView(raw.buffer)
       magic = reader.getUint16(0, true)
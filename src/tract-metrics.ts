@@ -0,0 +1,120 @@
+import { TractData, ValuesArray } from './nvmesh-types.js'
+import { validateOffsets } from './tractogram.js'
+
+type Streamlines = Pick<TractData, 'pts' | 'offsetPt0'>
+
+export type DPVReduction = 'mean' | 'min' | 'max' | 'median'
+
+/**
+ * Per-streamline measures as dps items:
+ * length: arc length in mm
+ * mean_curvature: mean of the turning angle at each interior vertex divided by the mean length
+ *   of its two segments (1/mm), 0 for streamlines with fewer than 3 vertices
+ * tortuosity: arc length divided by the distance between the endpoints (NaN if the endpoints coincide)
+ * start_point and end_point: XYZ of the first and last vertex (3 components, NaN for empty streamlines)
+ */
+export function streamlineMetrics(data: Streamlines): ValuesArray {
+  const { pts, offsetPt0 } = data
+  const nStreamlines = validateOffsets(offsetPt0, pts.length / 3)
+  const length = new Float32Array(nStreamlines)
+  const curvature = new Float32Array(nStreamlines)
+  const tortuosity = new Float32Array(nStreamlines)
+  const start = new Float32Array(nStreamlines * 3).fill(NaN)
+  const last = new Float32Array(nStreamlines * 3).fill(NaN)
+  for (let s = 0; s < nStreamlines; s++) {
+    const first = offsetPt0[s]
+    const n = offsetPt0[s + 1] - first
+    if (n < 1) {
+      tortuosity[s] = NaN
+      continue
+    }
+    start.set(pts.subarray(first * 3, first * 3 + 3), s * 3)
+    last.set(pts.subarray((first + n - 1) * 3, (first + n) * 3), s * 3)
+    let arc = 0
+    let sumCurvature = 0
+    // previous segment, as a vector and its length
+    let px = 0
+    let py = 0
+    let pz = 0
+    let plen = 0
+    for (let v = first + 1; v < first + n; v++) {
+      const dx = pts[v * 3] - pts[v * 3 - 3]
+      const dy = pts[v * 3 + 1] - pts[v * 3 - 2]
+      const dz = pts[v * 3 + 2] - pts[v * 3 - 1]
+      const len = Math.sqrt(dx * dx + dy * dy + dz * dz)
+      if (v > first + 1 && len > 0 && plen > 0) {
+        const cos = Math.min(1, Math.max(-1, (px * dx + py * dy + pz * dz) / (plen * len)))
+        sumCurvature += Math.acos(cos) / ((plen + len) / 2)
+      }
+      arc += len
+      px = dx
+      py = dy
+      pz = dz
+      plen = len
+    }
+    length[s] = arc
+    curvature[s] = n > 2 ? sumCurvature / (n - 2) : 0
+    const chord = Math.hypot(
+      last[s * 3] - start[s * 3],
+      last[s * 3 + 1] - start[s * 3 + 1],
+      last[s * 3 + 2] - start[s * 3 + 2]
+    )
+    tortuosity[s] = chord > 0 ? arc / chord : NaN
+  }
+  return [
+    { id: 'length', vals: length },
+    { id: 'mean_curvature', vals: curvature },
+    { id: 'tortuosity', vals: tortuosity },
+    { id: 'start_point', vals: start, nComponents: 3 },
+    { id: 'end_point', vals: last, nComponents: 3 }
+  ]
+}
+
+/**
+ * Reduce a dpv item to a dps item named id_reduction, e.g. fa_mean.
+ * Each component is reduced separately. Empty streamlines are NaN.
+ */
+export function reduceDPV(data: Streamlines, item: ValuesArray[number], reduction: DPVReduction): ValuesArray[number] {
+  const { offsetPt0 } = data
+  const nvert = data.pts.length / 3
+  const nStreamlines = validateOffsets(offsetPt0, nvert)
+  const nComponents = item.nComponents ?? 1
+  if (item.vals.length !== nvert * nComponents) {
+    throw new Error(
+      `dpv ${item.id} has ${item.vals.length} values, expected ${nvert} vertices of ${nComponents} components`
+    )
+  }
+  const vals = new Float32Array(nStreamlines * nComponents)
+  const values: number[] = []
+  for (let s = 0; s < nStreamlines; s++) {
+    for (let c = 0; c < nComponents; c++) {
+      values.length = 0
+      for (let v = offsetPt0[s]; v < offsetPt0[s + 1]; v++) {
+        values.push(item.vals[v * nComponents + c])
+      }
+      vals[s * nComponents + c] = reduce(values, reduction)
+    }
+  }
+  return { id: `${item.id}_${reduction}`, vals, ...(nComponents > 1 ? { nComponents } : {}) }
+}
+
+function reduce(values: number[], reduction: DPVReduction): number {
+  if (values.length === 0) {
+    return NaN
+  }
+  switch (reduction) {
+    case 'mean':
+      return values.reduce((sum, v) => sum + v, 0) / values.length
+    case 'min':
+      return values.reduce((a, b) => Math.min(a, b))
+    case 'max':
+      return values.reduce((a, b) => Math.max(a, b))
+    case 'median': {
+      const sorted = values.sort((a, b) => a - b)
+      const mid = sorted.length >> 1
+      return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2
+    }
+    default:
+      throw new Error(`Unknown dpv reduction ${reduction}`)
+  }
+}
@@ -0,0 +1,360 @@
+import { mat4, vec3 } from 'gl-matrix'
+import { Offsets, TRXHeader } from './nvmesh-types.js'
+import { voxelToRASMM } from './tract-space.js'
+import { validateOffsets } from './tractogram.js'
+
+// regions of interest, in world (rasmm) space like the vertices
+// a mask is a volume where voxels that are not zero (or that equal label) are inside
+export type ROI =
+  | { type: 'sphere'; center: [number, number, number]; radius: number }
+  | { type: 'box'; min: [number, number, number]; max: [number, number, number] }
+  | {
+      type: 'mask'
+      dims: [number, number, number]
+      data: ArrayLike<number>
+      header: Pick<TRXHeader, 'VOXEL_TO_RASMM'>
+      label?: number
+    }
+
+// include: the streamline passes through the ROI, exclude: it does not
+// endpoints: the first or last vertex of the streamline is within the ROI
+export type ROIMode = 'include' | 'exclude' | 'endpoints'
+
+export type ROIQuery = {
+  roi: ROI
+  mode: ROIMode
+}
+
+// whether the mask voxel that contains a world position is selected
+type MaskLookup = (x: number, y: number, z: number) => boolean
+
+function maskLookup(roi: Extract<ROI, { type: 'mask' }>): { isInside: MaskLookup; toVox: mat4 } {
+  const toVox = mat4.create()
+  if (!mat4.invert(toVox, voxelToRASMM(roi.header))) {
+    throw new Error('VOXEL_TO_RASMM is not invertible')
+  }
+  const [nx, ny, nz] = roi.dims
+  const isInside = (x: number, y: number, z: number): boolean => {
+    // voxel centers are integer voxel coordinates
+    const i = Math.round(toVox[0] * x + toVox[4] * y + toVox[8] * z + toVox[12])
+    const j = Math.round(toVox[1] * x + toVox[5] * y + toVox[9] * z + toVox[13])
+    const k = Math.round(toVox[2] * x + toVox[6] * y + toVox[10] * z + toVox[14])
+    if (i < 0 || j < 0 || k < 0 || i >= nx || j >= ny || k >= nz) {
+      return false
+    }
+    const v = roi.data[i + j * nx + k * nx * ny]
+    return roi.label === undefined ? v !== 0 : v === roi.label
+  }
+  return { isInside, toVox }
+}
+
+// world space bounds of each mask ROI: scanning the volume is slower than a query, so it is done once per ROI object
+const maskBounds = new WeakMap<ROI, [vec3, vec3]>()
+
+// world space bounding box of an ROI
+function roiBounds(roi: ROI): [vec3, vec3] {
+  if (roi.type === 'sphere') {
+    const [x, y, z] = roi.center
+    const r = roi.radius
+    return [vec3.fromValues(x - r, y - r, z - r), vec3.fromValues(x + r, y + r, z + r)]
+  }
+  if (roi.type === 'box') {
+    return [vec3.fromValues(...roi.min), vec3.fromValues(...roi.max)]
+  }
+  let bounds = maskBounds.get(roi)
+  if (!bounds) {
+    bounds = scanMaskBounds(roi)
+    maskBounds.set(roi, bounds)
+  }
+  return bounds
+}
+
+// voxels that are inside, then the corners of those voxels in world space
+function scanMaskBounds(roi: Extract<ROI, { type: 'mask' }>): [vec3, vec3] {
+  const [nx, ny, nz] = roi.dims
+  const { data, label } = roi
+  const lo = [nx, ny, nz]
+  const hi = [-1, -1, -1]
+  let vx = 0
+  for (let k = 0; k < nz; k++) {
+    for (let j = 0; j < ny; j++) {
+      for (let i = 0; i < nx; i++, vx++) {
+        if (label === undefined ? data[vx] === 0 : data[vx] !== label) {
+          continue
+        }
+        lo[0] = Math.min(lo[0], i)
+        lo[1] = Math.min(lo[1], j)
+        lo[2] = Math.min(lo[2], k)
+        hi[0] = Math.max(hi[0], i)
+        hi[1] = Math.max(hi[1], j)
+        hi[2] = Math.max(hi[2], k)
+      }
+    }
+  }
+  const min = vec3.fromValues(Infinity, Infinity, Infinity)
+  const max = vec3.fromValues(-Infinity, -Infinity, -Infinity)
+  if (hi[0] < 0) {
+    return [min, max] // empty mask
+  }
+  const mat = voxelToRASMM(roi.header)
+  const corner = vec3.create()
+  for (let c = 0; c < 8; c++) {
+    vec3.set(
+      corner,
+      c & 1 ? hi[0] + 0.5 : lo[0] - 0.5,
+      c & 2 ? hi[1] + 0.5 : lo[1] - 0.5,
+      c & 4 ? hi[2] + 0.5 : lo[2] - 0.5
+    )
+    vec3.transformMat4(corner, corner, mat)
+    vec3.min(min, min, corner)
+    vec3.max(max, max, corner)
+  }
+  return [min, max]
+}
+
+/**
+ * Uniform grid over the segments of streamlines, to find the streamlines that pass through or end in ROIs.
+ * Each segment is listed in every cell its bounding box overlaps, so a query only tests segments near the ROI.
+ * offsetPt0 must include the fence post. The bounds of a mask are found on its first query and kept
+ * for that ROI object, so use a new object after changing its data.
+ */
+export class StreamlineIndex {
+  readonly pts: Float32Array
+  readonly offsetPt0: Offsets
+  readonly streamlineCount: number
+  #cellSize: number
+  #origin: vec3
+  #dims: [number, number, number]
+  // segments of each cell: cellStart[c]..cellStart[c+1]-1 index into cellSegments
+  #cellStart: Uint32Array | Float64Array
+  // segments are identified by the vertex where they start
+  #cellSegments: Uint32Array | Float64Array
+  // streamline of each vertex
+  #streamlineOf: Uint32Array
+
+  constructor(pts: Float32Array, offsetPt0: Offsets, cellSize?: number) {
+    this.pts = pts
+    this.offsetPt0 = offsetPt0
+    const nvert = pts.length / 3
+    this.streamlineCount = validateOffsets(offsetPt0, nvert)
+    const isOverflowUint32 = nvert > 0xffffffff
+    this.#streamlineOf = new Uint32Array(nvert)
+    for (let s = 0; s < this.streamlineCount; s++) {
+      this.#streamlineOf.fill(s, offsetPt0[s], offsetPt0[s + 1])
+    }
+    const min = vec3.fromValues(Infinity, Infinity, Infinity)
+    const max = vec3.fromValues(-Infinity, -Infinity, -Infinity)
+    for (let v = 0; v < pts.length; v += 3) {
+      for (let j = 0; j < 3; j++) {
+        min[j] = Math.min(min[j], pts[v + j])
+        max[j] = Math.max(max[j], pts[v + j])
+      }
+    }
+    if (nvert === 0) {
+      vec3.zero(min)
+      vec3.zero(max)
+    }
+    // by default, about 8 segments per cell and at most 256 cells along each axis
+    const extent = vec3.sub(vec3.create(), max, min)
+    const volume = Math.max(extent[0], 1e-3) * Math.max(extent[1], 1e-3) * Math.max(extent[2], 1e-3)
+    const size = cellSize ?? Math.max(Math.cbrt((volume * 8) / Math.max(nvert, 1)), Math.max(...extent) / 256, 1e-3)
+    if (!(size > 0)) {
+      throw new Error(`StreamlineIndex cell size must be positive, not ${cellSize}`)
+    }
+    this.#cellSize = size
+    this.#origin = min
+    this.#dims = [0, 1, 2].map((j) => Math.floor(extent[j] / size) + 1) as [number, number, number]
+    const nCells = this.#dims[0] * this.#dims[1] * this.#dims[2]
+    // count the segments of each cell, then list them
+    const counts = new Uint32Array(nCells + 1)
+    this.#forEachSegmentCell((_, cell) => counts[cell + 1]++)
+    this.#cellStart = isOverflowUint32 ? new Float64Array(nCells + 1) : new Uint32Array(nCells + 1)
+    for (let c = 0; c < nCells; c++) {
+      this.#cellStart[c + 1] = this.#cellStart[c] + counts[c + 1]
+    }
+    const nEntries = this.#cellStart[nCells]
+    this.#cellSegments =
+      isOverflowUint32 || nEntries > 0xffffffff ? new Float64Array(nEntries) : new Uint32Array(nEntries)
+    const next = this.#cellStart.slice(0, nCells)
+    this.#forEachSegmentCell((v, cell) => {
+      this.#cellSegments[next[cell]++] = v
+    })
+  }
+
+  // last vertex of the segment that starts at vertex v, v itself for single vertex streamlines
+  #segmentEnd(v: number): number {
+    return v + 1 < this.offsetPt0[this.#streamlineOf[v] + 1] ? v + 1 : v
+  }
+
+  #cellRange(min: ArrayLike<number>, max: ArrayLike<number>): [number[], number[]] {
+    const lo = [0, 1, 2].map((j) => Math.max(0, Math.floor((min[j] - this.#origin[j]) / this.#cellSize)))
+    const hi = [0, 1, 2].map((j) =>
+      Math.min(this.#dims[j] - 1, Math.floor((max[j] - this.#origin[j]) / this.#cellSize))
+    )
+    return [lo, hi]
+  }
+
+  // calls fn for every cell overlapped by the bounding box of each segment
+  #forEachSegmentCell(fn: (v: number, cell: number) => void): void {
+    const pts = this.pts
+    const [nx, ny, nz] = this.#dims
+    const [ox, oy, oz] = this.#origin
+    const scale = 1 / this.#cellSize
+    const cellOf = (p: number, o: number, n: number): number =>
+      Math.min(n - 1, Math.max(0, Math.floor((p - o) * scale)))
+    for (let s = 0; s < this.streamlineCount; s++) {
+      const end = this.offsetPt0[s + 1]
+      // single vertex streamlines are a segment of length 0
+      const last = end - this.offsetPt0[s] === 1 ? end - 1 : end - 2
+      for (let v = this.offsetPt0[s]; v <= last; v++) {
+        const a = v * 3
+        const b = v < end - 1 ? a + 3 : a
+        const i0 = cellOf(Math.min(pts[a], pts[b]), ox, nx)
+        const i1 = cellOf(Math.max(pts[a], pts[b]), ox, nx)
+        const j0 = cellOf(Math.min(pts[a + 1], pts[b + 1]), oy, ny)
+        const j1 = cellOf(Math.max(pts[a + 1], pts[b + 1]), oy, ny)
+        const k0 = cellOf(Math.min(pts[a + 2], pts[b + 2]), oz, nz)
+        const k1 = cellOf(Math.max(pts[a + 2], pts[b + 2]), oz, nz)
+        for (let k = k0; k <= k1; k++) {
+          for (let j = j0; j <= j1; j++) {
+            for (let i = i0; i <= i1; i++) {
+              fn(v, i + j * nx + k * nx * ny)
+            }
+          }
+        }
+      }
+    }
+  }
+
+  // 1 for each streamline with a segment that intersects the ROI
+  passesThrough(roi: ROI): Uint8Array {
+    const hits = new Uint8Array(this.streamlineCount)
+    const [min, max] = roiBounds(roi)
+    if (min[0] > max[0]) {
+      return hits
+    }
+    const test = this.#segmentTest(roi)
+    const [lo, hi] = this.#cellRange(min, max)
+    const [nx, ny] = this.#dims
+    for (let k = lo[2]; k <= hi[2]; k++) {
+      for (let j = lo[1]; j <= hi[1]; j++) {
+        for (let i = lo[0]; i <= hi[0]; i++) {
+          const cell = i + j * nx + k * nx * ny
+          for (let e = this.#cellStart[cell]; e < this.#cellStart[cell + 1]; e++) {
+            const v = this.#cellSegments[e]
+            const s = this.#streamlineOf[v]
+            if (!hits[s] && test(v, this.#segmentEnd(v))) {
+              hits[s] = 1
+            }
+          }
+        }
+      }
+    }
+    return hits
+  }
+
+  // 1 for each streamline whose first or last vertex is within the ROI
+  endsIn(roi: ROI): Uint8Array {
+    const hits = new Uint8Array(this.streamlineCount)
+    const test = this.#segmentTest(roi)
+    for (let s = 0; s < this.streamlineCount; s++) {
+      const first = this.offsetPt0[s]
+      const last = this.offsetPt0[s + 1] - 1
+      if (last >= first && (test(first, first) || test(last, last))) {
+        hits[s] = 1
+      }
+    }
+    return hits
+  }
+
+  // indices of streamlines that satisfy every query
+  query(queries: ROIQuery[]): Uint32Array {
+    const isSelected = new Uint8Array(this.streamlineCount).fill(1)
+    for (const { roi, mode } of queries) {
+      const hits = mode === 'endpoints' ? this.endsIn(roi) : this.passesThrough(roi)
+      const isWanted = mode === 'exclude' ? 0 : 1
+      for (let s = 0; s < this.streamlineCount; s++) {
+        if (hits[s] !== isWanted) {
+          isSelected[s] = 0
+        }
+      }
+    }
+    const indices: number[] = []
+    for (let s = 0; s < this.streamlineCount; s++) {
+      if (isSelected[s]) {
+        indices.push(s)
+      }
+    }
+    return Uint32Array.from(indices)
+  }
+
+  // exact test of the segment between vertices v and w
+  #segmentTest(roi: ROI): (v: number, w: number) => boolean {
+    const pts = this.pts
+    if (roi.type === 'sphere') {
+      const [cx, cy, cz] = roi.center
+      const r2 = roi.radius * roi.radius
+      return (v, w) => {
+        // closest point of the segment to the center
+        const ax = pts[v * 3] - cx
+        const ay = pts[v * 3 + 1] - cy
+        const az = pts[v * 3 + 2] - cz
+        const dx = pts[w * 3] - pts[v * 3]
+        const dy = pts[w * 3 + 1] - pts[v * 3 + 1]
+        const dz = pts[w * 3 + 2] - pts[v * 3 + 2]
+        const len2 = dx * dx + dy * dy + dz * dz
+        const t = len2 > 0 ? Math.min(1, Math.max(0, -(ax * dx + ay * dy + az * dz) / len2)) : 0
+        const x = ax + t * dx
+        const y = ay + t * dy
+        const z = az + t * dz
+        return x * x + y * y + z * z <= r2
+      }
+    }
+    if (roi.type === 'box') {
+      const { min, max } = roi
+      return (v, w) => {
+        // clip the segment by each pair of planes (slab test)
+        let t0 = 0
+        let t1 = 1
+        for (let j = 0; j < 3; j++) {
+          const a = pts[v * 3 + j]
+          const d = pts[w * 3 + j] - a
+          if (d === 0) {
+            if (a < min[j] || a > max[j]) {
+              return false
+            }
+            continue
+          }
+          const ta = (min[j] - a) / d
+          const tb = (max[j] - a) / d
+          t0 = Math.max(t0, Math.min(ta, tb))
+          t1 = Math.min(t1, Math.max(ta, tb))
+          if (t0 > t1) {
+            return false
+          }
+        }
+        return true
+      }
+    }
+    const { isInside, toVox } = maskLookup(roi)
+    const a = vec3.create()
+    const b = vec3.create()
+    const va = vec3.create()
+    const vb = vec3.create()
+    return (v, w) => {
+      // sample the segment at least twice per voxel
+      vec3.set(a, pts[v * 3], pts[v * 3 + 1], pts[v * 3 + 2])
+      vec3.set(b, pts[w * 3], pts[w * 3 + 1], pts[w * 3 + 2])
+      vec3.transformMat4(va, a, toVox)
+      vec3.transformMat4(vb, b, toVox)
+      const n = Math.ceil(2 * Math.max(...[0, 1, 2].map((j) => Math.abs(vb[j] - va[j]))))
+      for (let i = 0; i <= n; i++) {
+        const t = n > 0 ? i / n : 0
+        if (isInside(a[0] + t * (b[0] - a[0]), a[1] + t * (b[1] - a[1]), a[2] + t * (b[2] - a[2]))) {
+          return true
+        }
+      }
+      return false
+    }
+  }
+}
@@ -0,0 +1,183 @@
+import { Offsets, TractData, TypedNumberArray, ValuesArray } from './nvmesh-types.js'
+import { validateOffsets } from './tractogram.js'
+
+// vertices, offsets (with the fence post) and dpv of resampled or compressed streamlines
+export type ResampledStreamlines = {
+  pts: Float32Array
+  offsetPt0: Offsets
+  dpv: ValuesArray
+}
+
+type Streamlines = Pick<TractData, 'pts' | 'offsetPt0' | 'dpv'>
+
+// a new vertex between vertices a and b, at fraction t from a
+type Sample = { a: number; b: number; t: number }
+
+function isFloatArray(vals: TypedNumberArray): boolean {
+  return vals instanceof Float32Array || vals instanceof Float64Array
+}
+
+// streamlines, each as the samples of its new vertices: the result of every operation here
+function buildStreamlines(
+  data: Streamlines,
+  samplesOf: (first: number, end: number) => Sample[]
+): ResampledStreamlines {
+  const { pts, offsetPt0 } = data
+  const nvert = pts.length / 3
+  const nStreamlines = validateOffsets(offsetPt0, nvert)
+  const streamlines: Sample[][] = []
+  let nSamples = 0
+  for (let s = 0; s < nStreamlines; s++) {
+    streamlines.push(samplesOf(offsetPt0[s], offsetPt0[s + 1]))
+    nSamples += streamlines[s].length
+  }
+  const isOverflowUint32 = nSamples > 0xffffffff
+  const out = isOverflowUint32 ? new Float64Array(nStreamlines + 1) : new Uint32Array(nStreamlines + 1)
+  const outPts = new Float32Array(nSamples * 3)
+  // dpv: floats are interpolated, integers (e.g. labels) take the value of the nearer vertex
+  const dpv = (data.dpv ?? []).map((d) => {
+    const nComponents = d.nComponents ?? 1
+    if (d.vals.length !== nvert * nComponents) {
+      throw new Error(
+        `dpv ${d.id} has ${d.vals.length} values, expected ${nvert} vertices of ${nComponents} components`
+      )
+    }
+    const vals = new (d.vals.constructor as new (length: number) => TypedNumberArray)(nSamples * nComponents)
+    return { item: { ...d, vals }, src: d.vals, vals, nComponents, isFloat: isFloatArray(d.vals) }
+  })
+  let v = 0
+  for (let s = 0; s < nStreamlines; s++) {
+    out[s] = v
+    for (const { a, b, t } of streamlines[s]) {
+      for (let j = 0; j < 3; j++) {
+        outPts[v * 3 + j] = pts[a * 3 + j] + t * (pts[b * 3 + j] - pts[a * 3 + j])
+      }
+      for (const { src, vals, nComponents, isFloat } of dpv) {
+        for (let c = 0; c < nComponents; c++) {
+          const va = src[a * nComponents + c]
+          const vb = src[b * nComponents + c]
+          vals[v * nComponents + c] = isFloat ? va + t * (vb - va) : t < 0.5 ? va : vb
+        }
+      }
+      v++
+    }
+  }
+  out[nStreamlines] = v
+  return { pts: outPts, offsetPt0: out, dpv: dpv.map((d) => d.item) }
+}
+
+// cumulative arc length at each vertex of a streamline, from its first vertex
+function arcLengths(pts: Float32Array, first: number, end: number): Float64Array {
+  const lengths = new Float64Array(Math.max(0, end - first))
+  for (let v = first + 1; v < end; v++) {
+    const dx = pts[v * 3] - pts[v * 3 - 3]
+    const dy = pts[v * 3 + 1] - pts[v * 3 - 2]
+    const dz = pts[v * 3 + 2] - pts[v * 3 - 1]
+    lengths[v - first] = lengths[v - first - 1] + Math.sqrt(dx * dx + dy * dy + dz * dz)
+  }
+  return lengths
+}
+
+// n samples evenly spaced along the streamline, including both ends
+function evenSamples(lengths: Float64Array, first: number, n: number): Sample[] {
+  const samples: Sample[] = []
+  const total = lengths[lengths.length - 1]
+  let i = 0
+  for (let k = 0; k < n; k++) {
+    const d = n > 1 ? (total * k) / (n - 1) : 0
+    // segment i..i+1 contains distance d
+    while (i < lengths.length - 2 && lengths[i + 1] < d) {
+      i++
+    }
+    if (lengths.length === 1) {
+      samples.push({ a: first, b: first, t: 0 })
+      continue
+    }
+    const len = lengths[i + 1] - lengths[i]
+    const t = len > 0 ? Math.min(1, Math.max(0, (d - lengths[i]) / len)) : 0
+    samples.push({ a: first + i, b: first + i + 1, t })
+  }
+  return samples
+}
+
+/**
+ * Resample each streamline to vertices evenly spaced along its length, at most step mm apart.
+ * The first and last vertices are kept. Streamlines of length 0 become a single vertex.
+ */
+export function resampleStep(data: Streamlines, step: number): ResampledStreamlines {
+  if (!(step > 0)) {
+    throw new Error(`Step size must be positive, not ${step}`)
+  }
+  return buildStreamlines(data, (first, end) => {
+    if (end <= first) {
+      return []
+    }
+    const lengths = arcLengths(data.pts, first, end)
+    const total = lengths[lengths.length - 1]
+    return evenSamples(lengths, first, total > 0 ? Math.ceil(total / step - 1e-6) + 1 : 1)
+  })
+}
+
+// resample each streamline to nPoints vertices evenly spaced along its length
+export function resampleCount(data: Streamlines, nPoints: number): ResampledStreamlines {
+  if (!Number.isInteger(nPoints) || nPoints < 2) {
+    throw new Error(`Number of points must be an integer of at least 2, not ${nPoints}`)
+  }
+  return buildStreamlines(data, (first, end) => {
+    if (end <= first) {
+      return []
+    }
+    return evenSamples(arcLengths(data.pts, first, end), first, nPoints)
+  })
+}
+
+// perpendicular distance from vertex p to the line through vertices a and b, as in DIPY
+function distanceToLine(pts: Float32Array, p: number, a: number, b: number): number {
+  const d = [0, 1, 2].map((j) => pts[b * 3 + j] - pts[a * 3 + j])
+  const w = [0, 1, 2].map((j) => pts[p * 3 + j] - pts[a * 3 + j])
+  const len = Math.hypot(d[0], d[1], d[2])
+  if (len === 0) {
+    return Math.hypot(w[0], w[1], w[2])
+  }
+  // the length of the cross product is the area of the parallelogram
+  const cx = w[1] * d[2] - w[2] * d[1]
+  const cy = w[2] * d[0] - w[0] * d[2]
+  const cz = w[0] * d[1] - w[1] * d[0]
+  return Math.hypot(cx, cy, cz) / len
+}
+
+/**
+ * Linearization compression (Presseau et al. 2015, compress_streamlines in DIPY and trx-python):
+ * keeps the vertices needed so that removed vertices are within tolError mm of the lines through the new segments,
+ * and segments are no longer than maxSegmentLength mm. The kept vertices retain their dpv.
+ */
+export function compressStreamlines(data: Streamlines, tolError = 0.01, maxSegmentLength = 10): ResampledStreamlines {
+  if (!(tolError >= 0) || !(maxSegmentLength > 0)) {
+    throw new Error(`Invalid tolerance ${tolError} or maximum segment length ${maxSegmentLength}`)
+  }
+  const pts = data.pts
+  return buildStreamlines(data, (first, end) => {
+    if (end - first <= 2) {
+      const samples: Sample[] = []
+      for (let v = first; v < end; v++) {
+        samples.push({ a: v, b: v, t: 0 })
+      }
+      return samples
+    }
+    const samples: Sample[] = [{ a: first, b: first, t: 0 }]
+    let start = first
+    for (let v = first + 2; v < end; v++) {
+      // can the segment start..v replace the vertices between them?
+      let isOK = distanceToLine(pts, v, start, start) <= maxSegmentLength
+      for (let p = start + 1; isOK && p < v; p++) {
+        isOK = distanceToLine(pts, p, start, v) <= tolError
+      }
+      if (!isOK) {
+        start = v - 1
+        samples.push({ a: start, b: start, t: 0 })
+      }
+    }
+    samples.push({ a: end - 1, b: end - 1, t: 0 })
+    return samples
+  })
+}
@@ -0,0 +1,95 @@
+import { mat4 } from 'gl-matrix'
+import { TRXHeader } from './nvmesh-types.js'
+
+// coordinate spaces of streamline vertices
+// rasmm: world millimeters, as stored by TRX and returned by all loaders
+// vox: voxel coordinates where integers are voxel centers
+// voxmm: TrackVis voxel coordinates in millimeters where the origin is the corner of the first voxel
+export type TractSpace = 'rasmm' | 'vox' | 'voxmm'
+
+// VOXEL_TO_RASMM as a (column-major) gl-matrix mat4
+export function voxelToRASMM(header: Pick<TRXHeader, 'VOXEL_TO_RASMM'>): mat4 {
+  const m = header.VOXEL_TO_RASMM
+  const mat = mat4.fromValues(
+    m[0][0],
+    m[0][1],
+    m[0][2],
+    m[0][3],
+    m[1][0],
+    m[1][1],
+    m[1][2],
+    m[1][3],
+    m[2][0],
+    m[2][1],
+    m[2][2],
+    m[2][3],
+    m[3][0],
+    m[3][1],
+    m[3][2],
+    m[3][3]
+  )
+  // fromValues expects columns, VOXEL_TO_RASMM lists rows
+  return mat4.transpose(mat, mat)
+}
+
+// voxel size in mm is the length of each column of the affine
+export function voxelSizes(header: Pick<TRXHeader, 'VOXEL_TO_RASMM'>): [number, number, number] {
+  const m = header.VOXEL_TO_RASMM
+  const sizes: [number, number, number] = [0, 0, 0]
+  for (let j = 0; j < 3; j++) {
+    sizes[j] = Math.hypot(m[0][j], m[1][j], m[2][j])
+  }
+  return sizes
+}
+
+// matrix that maps the space to rasmm
+function spaceToRASMM(header: Pick<TRXHeader, 'VOXEL_TO_RASMM'>, space: TractSpace): mat4 {
+  const mat = mat4.create()
+  if (space === 'rasmm') {
+    return mat
+  }
+  mat4.copy(mat, voxelToRASMM(header))
+  if (space === 'voxmm') {
+    // vox = voxmm / voxel_size - 0.5
+    const [sx, sy, sz] = voxelSizes(header)
+    const voxmm2vox = mat4.fromValues(1 / sx, 0, 0, 0, 0, 1 / sy, 0, 0, 0, 0, 1 / sz, 0, -0.5, -0.5, -0.5, 1)
+    mat4.mul(mat, mat, voxmm2vox)
+  }
+  return mat
+}
+
+// matrix that maps vertices from one space to another
+export function spaceTransform(header: Pick<TRXHeader, 'VOXEL_TO_RASMM'>, from: TractSpace, to: TractSpace): mat4 {
+  const mat = mat4.create()
+  if (!mat4.invert(mat, spaceToRASMM(header, to))) {
+    throw new Error('VOXEL_TO_RASMM is not invertible')
+  }
+  return mat4.mul(mat, mat, spaceToRASMM(header, from))
+}
+
+// returns a copy of the XYZ triplets transformed by a (column-major) matrix
+export function transformPoints(pts: Float32Array, mat: mat4): Float32Array {
+  const out = new Float32Array(pts.length)
+  for (let v = 0; v < pts.length; v += 3) {
+    const x = pts[v]
+    const y = pts[v + 1]
+    const z = pts[v + 2]
+    out[v] = mat[0] * x + mat[4] * y + mat[8] * z + mat[12]
+    out[v + 1] = mat[1] * x + mat[5] * y + mat[9] * z + mat[13]
+    out[v + 2] = mat[2] * x + mat[6] * y + mat[10] * z + mat[14]
+  }
+  return out
+}
+
+// returns a copy of the vertices converted between rasmm, vox and voxmm spaces
+export function convertSpace(
+  pts: Float32Array,
+  header: Pick<TRXHeader, 'VOXEL_TO_RASMM'>,
+  from: TractSpace,
+  to: TractSpace
+): Float32Array {
+  if (from === to) {
+    return pts.slice()
+  }
+  return transformPoints(pts, spaceTransform(header, from, to))
+}
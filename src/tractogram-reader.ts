@@ -0,0 +1,135 @@
+import { TractLoader } from './nvmesh-types.js'
+import { readBFLOAT, readNIML, readPDB, readTCK, readTRK, readTRX, readTT } from './nvtract-loaders.js'
+import { NVUtilities } from './nvutilities.js'
+import { Tractogram } from './tractogram.js'
+import { isZstd } from './zstd.js'
+import { readVTK, readVTP } from './vtk-loaders.js'
+
+function startsWith(bytes: Uint8Array, signature: string, offset: number = 0): boolean {
+  if (bytes.length < offset + signature.length) {
+    return false
+  }
+  for (let i = 0; i < signature.length; i++) {
+    if (bytes[offset + i] !== signature.charCodeAt(i)) {
+      return false
+    }
+  }
+  return true
+}
+
+// Matlab V4 files have no signature: check the first tag header is plausible
+function isMatV4(bytes: Uint8Array): boolean {
+  if (bytes.length < 40) {
+    return false
+  }
+  const reader = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const mtype = reader.getUint32(0, true)
+  const imagf = reader.getUint32(12, true)
+  const namlen = reader.getUint32(16, true)
+  return mtype <= 50 && mtype % 10 === 0 && imagf === 0 && namlen > 1 && namlen < 64 && bytes[20 + namlen - 1] === 0
+}
+
+// built-in loaders, registerLoader() adds to the front of this list
+const loaders: TractLoader[] = [
+  {
+    format: 'trk',
+    extensions: ['trk'],
+    detect: (bytes) => startsWith(bytes, 'TRAC'),
+    read: readTRK
+  },
+  {
+    format: 'tck',
+    extensions: ['tck'],
+    detect: (bytes) => startsWith(bytes, 'mrtrix tracks'),
+    read: readTCK
+  },
+  {
+    format: 'vtk',
+    extensions: ['vtk', 'fib'],
+    detect: (bytes) => startsWith(bytes, '# vtk DataFile'),
+    read: readVTK
+  },
+  {
+    format: 'vtp',
+    extensions: ['vtp'],
+    detect: (bytes) => startsWith(bytes, '<?xml') || startsWith(bytes, '<VTKFile'),
+    read: readVTP
+  },
+  {
+    format: 'niml',
+    extensions: ['niml.tract', 'tract'],
+    detect: (bytes) => startsWith(bytes, '<network'),
+    read: readNIML
+  },
+  {
+    format: 'trx',
+    extensions: ['trx'],
+    detect: (bytes) => startsWith(bytes, 'PK\x03\x04'),
+    read: readTRX
+  },
+  {
+    format: 'tt',
+    extensions: ['tt'],
+    detect: isMatV4,
+    read: readTT
+  },
+  // no signature: only detected by extension
+  {
+    format: 'bfloat',
+    extensions: ['bfloat'],
+    read: (buffer) => readBFLOAT(buffer)
+  },
+  {
+    format: 'pdb',
+    extensions: ['pdb'],
+    read: readPDB
+  }
+]
+
+// add a loader, e.g. for an in-house format: it takes precedence over loaders added before it
+export function registerLoader(loader: TractLoader): void {
+  const i = loaders.findIndex((l) => l.format === loader.format)
+  if (i >= 0) {
+    loaders.splice(i, 1)
+  }
+  loaders.unshift(loader)
+}
+
+export function getLoaders(): TractLoader[] {
+  return [...loaders]
+}
+
+// format of a file from its first bytes, or from the filename if no loader recognizes the bytes
+export function detectFormat(bytes: Uint8Array, filenameHint?: string): string | null {
+  for (const loader of loaders) {
+    if (loader.detect && loader.detect(bytes)) {
+      return loader.format
+    }
+  }
+  if (filenameHint) {
+    // e.g. bundle.trk.gz -> bundle.trk
+    const name = filenameHint.toLowerCase().replace(/\.(gz|zst)$/, '')
+    for (const loader of loaders) {
+      if (loader.extensions.some((ext) => name.endsWith('.' + ext.toLowerCase()))) {
+        return loader.format
+      }
+    }
+  }
+  return null
+}
+
+// read streamlines in any registered format, gzip and zstd compressed files are decompressed first
+export async function readTractogram(buffer: ArrayBuffer, filenameHint?: string): Promise<Tractogram> {
+  let bytes = new Uint8Array(buffer)
+  if ((bytes[0] === 31 && bytes[1] === 139) || isZstd(bytes)) {
+    bytes = await NVUtilities.decompress(bytes)
+    buffer = bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength)
+  }
+  const format = detectFormat(bytes, filenameHint)
+  if (!format) {
+    throw new Error(`Unable to determine streamline format of ${filenameHint ?? 'buffer'}`)
+  }
+  const loader = loaders.find((l) => l.format === format)!
+  const tract = await loader.read(buffer)
+  return new Tractogram({ ...tract, format })
+}
@@ -0,0 +1,188 @@
+import {
+  MRtrixHeader,
+  NIMLHeader,
+  Offsets,
+  PDBHeader,
+  TractData,
+  TRKHeader,
+  TRXDataPerGroup,
+  TRXGroups,
+  TRXHeader,
+  TypedNumberArray,
+  ValuesArray
+} from './nvmesh-types.js'
+
+// number of values per item, e.g. 3 for an RGB color per vertex: nComponents, or inferred from an exact multiple
+function componentsOf(d: ValuesArray[number], nItems: number, kind: string): number {
+  const n = d.nComponents ?? (nItems > 0 && d.vals.length % nItems === 0 ? Math.max(1, d.vals.length / nItems) : 1)
+  if (d.vals.length !== nItems * n) {
+    throw new Error(`${kind} ${d.id} has ${d.vals.length} values, expected ${nItems} items of ${n} components`)
+  }
+  return n
+}
+
+// copy the listed items, each with nComponents values, to an array of the same type
+function gather<T extends TypedNumberArray>(vals: T, items: ArrayLike<number>, nComponents: number): T {
+  const out = new (vals.constructor as new (length: number) => T)(items.length * nComponents)
+  for (let i = 0; i < items.length; i++) {
+    out.set(vals.subarray(items[i] * nComponents, (items[i] + 1) * nComponents), i * nComponents)
+  }
+  return out
+}
+
+// checks that offsetPt0 starts at 0, does not decrease and ends with the fence post, returns the number of streamlines
+export function validateOffsets(offsetPt0: Offsets, nVertices: number): number {
+  if (offsetPt0.length < 1 || offsetPt0[offsetPt0.length - 1] !== nVertices) {
+    throw new Error(`Streamline offsets must end with the number of vertices ${nVertices} (fence post)`)
+  }
+  if (offsetPt0[0] !== 0) {
+    throw new Error(`First streamline must start at vertex 0, not ${offsetPt0[0]}`)
+  }
+  for (let i = 1; i < offsetPt0.length; i++) {
+    if (offsetPt0[i] < offsetPt0[i - 1]) {
+      throw new Error(`Streamline offsets must not decrease (offset ${i})`)
+    }
+  }
+  return offsetPt0.length - 1
+}
+
+/**
+ * Streamlines with their data, as returned by readTractogram.
+ * offsetPt0 always includes the fence post: streamline i has vertices offsetPt0[i]..offsetPt0[i+1]-1
+ * and offsetPt0[streamlineCount] is the number of vertices.
+ */
+export class Tractogram implements TractData {
+  format: string
+  pts: Float32Array
+  offsetPt0: Offsets
+  dps: ValuesArray
+  dpv: ValuesArray
+  groups: TRXGroups
+  dpg: TRXDataPerGroup
+  header?: TRXHeader | TRKHeader | MRtrixHeader | NIMLHeader | PDBHeader
+
+  constructor(data: Omit<TractData, 'format'> & { format?: string }) {
+    this.format = data.format ?? ''
+    this.pts = data.pts
+    const nStreamlines = validateOffsets(data.offsetPt0, data.pts.length / 3)
+    this.offsetPt0 = data.offsetPt0
+    this.dps = data.dps ?? []
+    this.dpv = data.dpv ?? []
+    this.dps.forEach((d) => componentsOf(d, nStreamlines, 'dps'))
+    this.dpv.forEach((d) => componentsOf(d, data.pts.length / 3, 'dpv'))
+    this.groups = data.groups ?? {}
+    this.dpg = data.dpg ?? {}
+    this.header = data.header
+  }
+
+  get streamlineCount(): number {
+    return this.offsetPt0.length - 1
+  }
+
+  get vertexCount(): number {
+    return this.pts.length / 3
+  }
+
+  // XYZ triplets of streamline i, a view that shares memory with pts
+  getStreamline(i: number): Float32Array {
+    if (!Number.isInteger(i) || i < 0 || i >= this.streamlineCount) {
+      throw new RangeError(`Streamline ${i} out of range (0..${this.streamlineCount - 1})`)
+    }
+    return this.pts.subarray(this.offsetPt0[i] * 3, this.offsetPt0[i + 1] * 3)
+  }
+
+  *[Symbol.iterator](): IterableIterator<Float32Array> {
+    for (let i = 0; i < this.streamlineCount; i++) {
+      yield this.getStreamline(i)
+    }
+  }
+
+  // new tractogram with the listed streamlines (in the listed order), with their dpv, dps and groups
+  select(indices: ArrayLike<number>): Tractogram {
+    const nStreamlines = this.streamlineCount
+    let nVertices = 0
+    for (let i = 0; i < indices.length; i++) {
+      const s = indices[i]
+      if (!Number.isInteger(s) || s < 0 || s >= nStreamlines) {
+        throw new RangeError(`Streamline ${s} out of range (0..${nStreamlines - 1})`)
+      }
+      nVertices += this.offsetPt0[s + 1] - this.offsetPt0[s]
+    }
+    // vertex indices of the selected streamlines
+    const isOverflowUint32 = nVertices > 0xffffffff
+    const vertices = isOverflowUint32 ? new Float64Array(nVertices) : new Uint32Array(nVertices)
+    const offsetPt0 = isOverflowUint32 ? new Float64Array(indices.length + 1) : new Uint32Array(indices.length + 1)
+    let v = 0
+    for (let i = 0; i < indices.length; i++) {
+      offsetPt0[i] = v
+      for (let j = this.offsetPt0[indices[i]]; j < this.offsetPt0[indices[i] + 1]; j++) {
+        vertices[v++] = j
+      }
+    }
+    offsetPt0[indices.length] = v
+    const dpv = this.dpv.map((d) => ({
+      ...d,
+      vals: gather(d.vals, vertices, componentsOf(d, this.vertexCount, 'dpv'))
+    }))
+    const dps = this.dps.map((d) => ({
+      ...d,
+      vals: gather(d.vals, indices, componentsOf(d, nStreamlines, 'dps'))
+    }))
+    // groups list streamlines by index: renumber, dropping streamlines that were not selected
+    const groups: TRXGroups = {}
+    const isMember = new Uint8Array(nStreamlines)
+    for (const [name, members] of Object.entries(this.groups)) {
+      isMember.fill(0)
+      for (let i = 0; i < members.length; i++) {
+        isMember[members[i]] = 1
+      }
+      const selected: number[] = []
+      for (let i = 0; i < indices.length; i++) {
+        if (isMember[indices[i]]) {
+          selected.push(i)
+        }
+      }
+      groups[name] = Uint32Array.from(selected)
+    }
+    return new Tractogram({
+      format: this.format,
+      pts: gather(this.pts, vertices, 3),
+      offsetPt0,
+      dps,
+      dpv,
+      groups,
+      dpg: this.dpg,
+      header: this.#countedHeader(indices.length, nVertices)
+    })
+  }
+
+  // new tractogram with the streamlines for which predicate returns true
+  filter(predicate: (streamline: Float32Array, index: number) => boolean): Tractogram {
+    const indices: number[] = []
+    for (let i = 0; i < this.streamlineCount; i++) {
+      if (predicate(this.getStreamline(i), i)) {
+        indices.push(i)
+      }
+    }
+    return this.select(indices)
+  }
+
+  // copy of the header with the streamline and vertex counts that formats store updated
+  #countedHeader(nStreamlines: number, nVertices: number): TractData['header'] {
+    if (!this.header) {
+      return undefined
+    }
+    const header: Record<string, unknown> = { ...this.header }
+    if ('NB_STREAMLINES' in header) {
+      header.NB_STREAMLINES = nStreamlines
+      header.NB_VERTICES = nVertices
+    }
+    if ('n_count' in header) {
+      header.n_count = nStreamlines
+    }
+    if ('count' in header) {
+      header.count = String(nStreamlines)
+    }
+    return header as TractData['header']
+  }
+}
@@ -1,14 +1,18 @@
+import { Offsets, TypedNumberArray, ValuesArray, VTK, VTKWriteOptions, VTPWriteOptions } from './nvmesh-types.js'
+import { NVUtilities } from './nvutilities.js'
+import { log } from './logger.js'
+
 // n.b. NiiVue can read both meshes AND tracts stored in VTK: this is more limited
 
 /**
- * Reads a VTK file (ASCII or Binary) and extracts streamline data (LINES).
+ * Reads a legacy VTK file (ASCII or Binary) and extracts streamline data (LINES).
+ * Both the classic LINES layout and the VTK 5.1 OFFSETS/CONNECTIVITY layout are supported.
+ * POINT_DATA and CELL_DATA attributes (SCALARS, VECTORS, NORMALS, TENSORS, FIELD arrays...)
+ * are returned as dpv and dps, multi-component arrays are interleaved.
  * @param buffer Binary buffer of the VTK file
- * @returns Parsed streamline data `{ pts, offsetPt0 }`
+ * @returns Parsed streamline data `{ pts, offsetPt0, dps, dpv }`
  */
-export function readVTK(buffer: ArrayBuffer): {
-  pts: Float32Array
-  offsetPt0: Uint32Array
-} {
+export function readVTK(buffer: ArrayBuffer): VTK {
   const len = buffer.byteLength
   if (len < 20) {
     throw new Error(`File too small to be VTK: bytes = ${len}`)
@@ -19,7 +23,7 @@ export function readVTK(buffer: ArrayBuffer): {
   const reader = new DataView(buffer)
 
   function readStr(): string {
-    while (pos < len && bytes[pos] === 10) pos++ // Skip blank lines
+    while (pos < len && (bytes[pos] === 10 || bytes[pos] === 13)) pos++ // Skip blank lines
     const startPos = pos
     while (pos < len && bytes[pos] !== 10) pos++
     pos++ // Skip newline
@@ -33,113 +37,724 @@ export function readVTK(buffer: ArrayBuffer): {
   readStr() // Ignore comment line
   line = readStr()
 
-  if (line.startsWith('ASCII')) {
-    throw new Error(`Invalid VTK file, expected ASCII or BINARY but got: ${line}`)
-  } else if (!line.startsWith('BINARY')) {
+  const isASCII = line.startsWith('ASCII')
+  if (!isASCII && !line.startsWith('BINARY')) {
     throw new Error(`Invalid VTK file, expected ASCII or BINARY but got: ${line}`)
   }
 
+  // ASCII values are separated by any whitespace, including newlines
+  const latin1 = new TextDecoder('latin1')
+  function readToken(): string {
+    while (pos < len && bytes[pos] <= 32) pos++
+    const startPos = pos
+    while (pos < len && bytes[pos] > 32) pos++
+    if (startPos === pos) {
+      throw new Error('Unexpected end of file when reading ASCII values.')
+    }
+    return latin1.decode(bytes.subarray(startPos, pos))
+  }
+
+  // Fill `out` with values of the VTK data type, binary VTK is always big endian
+  function readValues<T extends Float32Array | Float64Array>(out: T, dataType: string): T {
+    const n = out.length
+    if (isASCII) {
+      for (let i = 0; i < n; i++) {
+        out[i] = parseFloat(readToken())
+      }
+      return out
+    }
+    const type = dataType.toLowerCase()
+    let bytesPerValue = 4
+    let getValue: (p: number) => number
+    if (type === 'float') {
+      getValue = (p) => reader.getFloat32(p, false)
+    } else if (type === 'double') {
+      bytesPerValue = 8
+      getValue = (p) => reader.getFloat64(p, false)
+    } else if (type === 'unsigned_char') {
+      bytesPerValue = 1
+      getValue = (p) => reader.getUint8(p)
+    } else if (type === 'char') {
+      bytesPerValue = 1
+      getValue = (p) => reader.getInt8(p)
+    } else if (type === 'unsigned_short') {
+      bytesPerValue = 2
+      getValue = (p) => reader.getUint16(p, false)
+    } else if (type === 'short') {
+      bytesPerValue = 2
+      getValue = (p) => reader.getInt16(p, false)
+    } else if (type === 'unsigned_int') {
+      getValue = (p) => reader.getUint32(p, false)
+    } else if (type === 'int') {
+      getValue = (p) => reader.getInt32(p, false)
+    } else if (type === 'unsigned_long' || type === 'vtktypeuint64') {
+      // JavaScript numbers are exact up to 2^53
+      bytesPerValue = 8
+      getValue = (p) => reader.getUint32(p, false) * 4294967296 + reader.getUint32(p + 4, false)
+    } else if (type === 'long' || type === 'vtktypeint64' || type === 'vtkidtype') {
+      bytesPerValue = 8
+      getValue = (p) => reader.getInt32(p, false) * 4294967296 + reader.getUint32(p + 4, false)
+    } else {
+      throw new Error(`Unsupported VTK data type: ${dataType}`)
+    }
+    if (pos + bytesPerValue * n > len) {
+      throw new Error(`Unexpected end of file when reading ${n} ${dataType} values.`)
+    }
+    for (let i = 0; i < n; i++) {
+      out[i] = getValue(pos)
+      pos += bytesPerValue
+    }
+    return out
+  }
+
+  // VTK 5.1 may follow arrays with a METADATA block that ends with a blank line
+  function skipMetadata(): void {
+    const posOK = pos
+    if (readStr() !== 'METADATA') {
+      pos = posOK
+      return
+    }
+    skipMetadataBody()
+  }
+
+  function skipMetadataBody(): void {
+    while (pos < len) {
+      const startPos = pos
+      while (pos < len && bytes[pos] !== 10) pos++
+      pos++
+      if (new TextDecoder().decode(buffer.slice(startPos, pos - 1)).trim() === '') {
+        break
+      }
+    }
+  }
+
   // Read header
   line = readStr()
   if (!line.includes('POLYDATA')) {
     throw new Error('Only able to read VTK POLYDATA')
   }
 
-  line = readStr()
-  if (!line.startsWith('POINTS') || (!line.includes('double') && !line.includes('float'))) {
-    throw new Error(`Only able to read VTK float or double POINTS: ${line}`)
+  let positions: Float32Array | null = null
+  let nvert = 0
+  // index of each streamline vertex into positions (connectivity)
+  let indices: Float64Array | null = null
+  let offsetPt0: Offsets | null = null
+  const dpv: ValuesArray = []
+  const dps: ValuesArray = []
+  let attributes: ValuesArray | null = null
+  let nAttributes = 0
+
+  function addAttribute(id: string, nComponents: number, vals: Float32Array): void {
+    attributes!.push({ id, vals, nComponents })
   }
 
-  // Determine point precision
-  const isFloat64 = line.includes('double')
-  const items = line.split(/\s+/)
-  const nvert = parseInt(items[1])
-  const nvert3 = nvert * 3
-  const positions = new Float32Array(nvert3)
+  while (pos < len) {
+    line = readStr()
+    if (line === '') {
+      break
+    }
+    const items = line.split(/\s+/)
+    const keyword = items[0].toUpperCase()
+    if (keyword === 'POINTS') {
+      nvert = parseInt(items[1])
+      const dataType = items[2]
+      if (dataType !== 'float' && dataType !== 'double') {
+        throw new Error(`Only able to read VTK float or double POINTS: ${line}`)
+      }
+      positions = readValues(new Float32Array(nvert * 3), dataType)
+      skipMetadata()
+    } else if (keyword === 'LINES') {
+      const n_count = parseInt(items[1])
+      const size = parseInt(items[2])
+      // Check if OFFSETS exist (VTK 5.1, e.g. VTK file format used by DiPy)
+      const posOK = pos
+      line = readStr()
+      if (line.startsWith('OFFSETS')) {
+        // n_count is the number of offsets, which includes the fence post
+        const offsets = readValues(new Float64Array(n_count), line.split(/\s+/)[1])
+        skipMetadata()
+        line = readStr()
+        if (!line.startsWith('CONNECTIVITY')) {
+          throw new Error(`Expected VTK CONNECTIVITY after OFFSETS but got: ${line}`)
+        }
+        indices = readValues(new Float64Array(size), line.split(/\s+/)[1])
+        skipMetadata()
+        // offsets beyond 4 billion vertices are kept as (exact) doubles
+        const isOverflowUint32 = n_count > 0 && offsets[n_count - 1] > 0xffffffff
+        offsetPt0 = isOverflowUint32 ? offsets : new Uint32Array(Math.max(n_count, 1))
+        if (!isOverflowUint32) {
+          offsetPt0.set(offsets)
+        }
+      } else {
+        // Restore position for standard LINES format: per line, the number of points then the point indices
+        pos = posOK
+        const cells = readValues(new Float64Array(size), 'int')
+        offsetPt0 = new Uint32Array(n_count + 1)
+        indices = new Float64Array(size - n_count)
+        let npt = 0
+        let p = 0
+        offsetPt0[0] = 0
+        for (let c = 0; c < n_count; c++) {
+          const numPoints = cells[p++]
+          if (p + numPoints > size) {
+            throw new Error('Unexpected end of LINES when reading streamline points.')
+          }
+          for (let i = 0; i < numPoints; i++) {
+            indices[npt++] = cells[p++]
+          }
+          offsetPt0[c + 1] = npt
+        }
+      }
+    } else if (keyword === 'POINT_DATA') {
+      attributes = dpv
+      nAttributes = parseInt(items[1])
+      if (nAttributes !== nvert) {
+        throw new Error(`VTK POINT_DATA has ${nAttributes} items but there are ${nvert} points`)
+      }
+    } else if (keyword === 'CELL_DATA') {
+      attributes = dps
+      nAttributes = parseInt(items[1])
+      if (!offsetPt0 || nAttributes !== offsetPt0.length - 1) {
+        throw new Error(`VTK CELL_DATA has ${nAttributes} items which does not match the number of LINES`)
+      }
+    } else if (keyword === 'FIELD') {
+      // field data is either attribute data or, before POINTS, describes the dataset
+      const nArrays = parseInt(items[2])
+      for (let a = 0; a < nArrays; a++) {
+        const arrayItems = readStr().split(/\s+/)
+        const nComponents = parseInt(arrayItems[1])
+        const nTuples = parseInt(arrayItems[2])
+        const vals = readValues(new Float32Array(nComponents * nTuples), arrayItems[3])
+        skipMetadata()
+        if (attributes && nTuples === nAttributes) {
+          addAttribute(arrayItems[0], nComponents, vals)
+        } else if (attributes) {
+          log.warn(`VTK FIELD array ${arrayItems[0]} has ${nTuples} tuples, expected ${nAttributes}: skipped`)
+        }
+      }
+    } else if (keyword === 'METADATA') {
+      skipMetadataBody()
+    } else if (attributes) {
+      let nComponents = 1
+      let dataType = items[2]
+      if (keyword === 'SCALARS') {
+        nComponents = items.length > 3 ? parseInt(items[3]) : 1
+        const posOK = pos
+        if (!readStr().startsWith('LOOKUP_TABLE')) {
+          pos = posOK
+        }
+      } else if (keyword === 'VECTORS' || keyword === 'NORMALS') {
+        nComponents = 3
+      } else if (keyword === 'TENSORS') {
+        nComponents = 9
+      } else if (keyword === 'TEXTURE_COORDINATES') {
+        nComponents = parseInt(items[2])
+        dataType = items[3]
+      } else if (keyword === 'COLOR_SCALARS') {
+        // binary colors are bytes, ASCII colors are floats 0..1
+        nComponents = parseInt(items[2])
+        dataType = 'unsigned_char'
+      } else if (keyword === 'LOOKUP_TABLE') {
+        // a color table definition: size RGBA colors
+        readValues(new Float32Array(parseInt(items[2]) * 4), 'unsigned_char')
+        continue
+      } else {
+        throw new Error(`Unsupported VTK attribute: ${line}`)
+      }
+      const vals = readValues(new Float32Array(nAttributes * nComponents), dataType)
+      if (keyword === 'COLOR_SCALARS' && !isASCII) {
+        for (let i = 0; i < vals.length; i++) {
+          vals[i] /= 255
+        }
+      }
+      skipMetadata()
+      addAttribute(items[1], nComponents, vals)
+    } else {
+      throw new Error(`See NiiVue for VTK ${line} support (this library only reads LINES)`)
+    }
+  }
 
-  // Ensure we have enough bytes in the buffer
-  if (pos + (isFloat64 ? 8 : 4) * nvert3 > len) {
-    throw new Error('See NiiVue for VTK ASCII support.')
+  if (!positions || !offsetPt0 || !indices) {
+    throw new Error('VTK file must have POINTS and LINES')
   }
+  return gatherLines(positions, indices, offsetPt0, dps, dpv)
+}
 
-  for (let i = 0; i < nvert3; i++) {
-    positions[i] = isFloat64 ? reader.getFloat64(pos, false) : reader.getFloat32(pos, false)
-    pos += isFloat64 ? 8 : 4
+/**
+ * Orders points and point data by the LINES connectivity.
+ * @param positions XYZ of each VTK point
+ * @param indices point index of each streamline vertex
+ * @returns streamlines where vertices of each line are contiguous
+ */
+function gatherLines(
+  positions: Float32Array,
+  indices: Float64Array,
+  offsetPt0: Offsets,
+  dps: ValuesArray,
+  dpv: ValuesArray
+): VTK {
+  const nvert = positions.length / 3
+  const npt = indices.length
+  // most streamline files store each vertex once, in order: no need to reorder
+  let isSequential = npt === nvert
+  for (let i = 0; isSequential && i < npt; i++) {
+    isSequential = indices[i] === i
   }
+  if (isSequential) {
+    return { pts: positions, offsetPt0, dps, dpv }
+  }
+  const pts = new Float32Array(npt * 3)
+  for (let i = 0; i < npt; i++) {
+    const idx = indices[i]
+    if (idx < 0 || idx >= nvert) {
+      throw new Error(`Index out of bounds: ${idx} (max ${nvert})`)
+    }
+    pts[i * 3] = positions[idx * 3]
+    pts[i * 3 + 1] = positions[idx * 3 + 1]
+    pts[i * 3 + 2] = positions[idx * 3 + 2]
+  }
+  for (let a = 0; a < dpv.length; a++) {
+    const nComponents = dpv[a].nComponents ?? 1
+    const src = dpv[a].vals
+    const vals = new Float32Array(npt * nComponents)
+    for (let i = 0; i < npt; i++) {
+      for (let c = 0; c < nComponents; c++) {
+        vals[i * nComponents + c] = src[indices[i] * nComponents + c]
+      }
+    }
+    dpv[a].vals = vals
+  }
+  return { pts, offsetPt0, dps, dpv }
+}
 
-  // Read next dataset type
-  line = readStr()
-  if (!line.startsWith('LINES')) {
-    throw new Error(`See NiiVue for VTK ${line} support (this library only reads LINES)`)
+/**
+ * Number of components of a dpv or dps array saved to VTK.
+ * @param item data array
+ * @param n number of vertices (dpv) or streamlines (dps)
+ * @returns values per vertex or streamline
+ */
+function nComponentsOf(item: ValuesArray[number], n: number): number {
+  const nComponents = item.nComponents ?? (n > 0 ? item.vals.length / n : 1)
+  if (!Number.isInteger(nComponents) || nComponents < 1 || item.vals.length !== n * nComponents) {
+    throw new Error(`'${item.id}' has ${item.vals.length} values which is not ${n} items of ${nComponents} components`)
   }
+  return nComponents
+}
 
-  // Read LINES dataset
-  const lineItems = line.split(/\s+/)
-  const n_count = parseInt(lineItems[1])
+// shortest text that reads back as the same float32
+function formatFloat32(v: number): string {
+  for (let precision = 6; precision < 9; precision++) {
+    const str = `${+v.toPrecision(precision)}`
+    if (Math.fround(parseFloat(str)) === v) {
+      return str
+    }
+  }
+  return `${+v.toPrecision(9)}`
+}
 
-  // Check if OFFSETS exist (e.g., VTK file format used by DiPy)
-  const posOK = pos
-  line = readStr()
-  if (line.startsWith('OFFSETS')) {
-    const isInt64 = line.includes('int64')
-    const offsetPt0 = new Uint32Array(n_count)
+/**
+ * Writes streamlines as a legacy VTK POLYDATA file.
+ * dpv and dps are saved as POINT_DATA and CELL_DATA FIELD arrays, the number of components
+ * is the number of values divided by the number of vertices (or streamlines).
+ * @param vtk streamlines to save, offsetPt0 must include the fence post
+ * @param options `ascii` for text output, `layout: 'offsets'` for the VTK 5.1 OFFSETS/CONNECTIVITY layout
+ * @returns Bytes of the VTK file
+ */
+export function writeVTK(vtk: VTK, options: VTKWriteOptions = {}): Uint8Array {
+  const { ascii = false, layout = 'classic' } = options
+  const nvert = vtk.pts.length / 3
+  const nstreamlines = vtk.offsetPt0.length - 1
+  if (nstreamlines < 0 || vtk.offsetPt0[nstreamlines] !== nvert) {
+    throw new Error('VTK offsetPt0 must end with the number of vertices (fence post)')
+  }
+  const encoder = new TextEncoder()
+  const chunks: Uint8Array[] = []
+  function writeStr(str: string): void {
+    chunks.push(encoder.encode(str))
+  }
 
-    if (isInt64) {
-      let isOverflowInt32 = false
-      for (let c = 0; c < n_count; c++) {
-        let idx = reader.getInt32(pos, false)
-        if (idx !== 0) isOverflowInt32 = true
-        pos += 4
-        idx = reader.getInt32(pos, false)
-        pos += 4
-        offsetPt0[c] = idx
-      }
-      if (isOverflowInt32) {
-        console.warn('int32 overflow: JavaScript does not support int64')
+  // binary VTK is always big endian
+  function writeValues(vals: TypedNumberArray, dataType: 'float' | 'int' | 'vtktypeint64'): void {
+    const n = vals.length
+    if (ascii) {
+      const lines: string[] = []
+      for (let i = 0; i < n; i += 9) {
+        const row: string[] = []
+        for (let j = i; j < Math.min(i + 9, n); j++) {
+          row.push(dataType === 'float' ? formatFloat32(vals[j]) : `${vals[j]}`)
+        }
+        lines.push(row.join(' '))
       }
-    } else {
-      for (let c = 0; c < n_count; c++) {
-        offsetPt0[c] = reader.getInt32(pos, false)
-        pos += 4
+      writeStr(lines.join('\n') + '\n')
+      return
+    }
+    const bytesPerValue = dataType === 'vtktypeint64' ? 8 : 4
+    const out = new Uint8Array(n * bytesPerValue + 1)
+    const writer = new DataView(out.buffer)
+    let pos = 0
+    for (let i = 0; i < n; i++) {
+      if (dataType === 'float') {
+        writer.setFloat32(pos, vals[i], false)
+      } else if (dataType === 'int') {
+        writer.setInt32(pos, vals[i], false)
+      } else {
+        writer.setUint32(pos, Math.floor(vals[i] / 4294967296), false)
+        writer.setUint32(pos + 4, vals[i] >>> 0, false)
       }
+      pos += bytesPerValue
     }
+    out[pos] = 10 // newline
+    chunks.push(out)
+  }
 
-    return { pts: positions, offsetPt0 }
+  function writeAttributes(section: string, items: ValuesArray, n: number): void {
+    if (items.length < 1) {
+      return
+    }
+    writeStr(`${section} ${n}\nFIELD FieldData ${items.length}\n`)
+    for (const item of items) {
+      const nComponents = nComponentsOf(item, n)
+      writeStr(`${item.id.replace(/\s/g, '_')} ${nComponents} ${n} float\n`)
+      writeValues(item.vals, 'float')
+    }
   }
 
-  // Restore position for standard LINES format
-  pos = posOK
+  const version = layout === 'offsets' ? '5.1' : '3.0'
+  writeStr(`# vtk DataFile Version ${version}\nstreamlines\n${ascii ? 'ASCII' : 'BINARY'}\nDATASET POLYDATA\n`)
+  writeStr(`POINTS ${nvert} float\n`)
+  writeValues(vtk.pts, 'float')
+  if (layout === 'offsets') {
+    writeStr(`LINES ${nstreamlines + 1} ${nvert}\nOFFSETS vtktypeint64\n`)
+    writeValues(vtk.offsetPt0, 'vtktypeint64')
+    writeStr('CONNECTIVITY vtktypeint64\n')
+    const indices = nvert > 0xffffffff ? new Float64Array(nvert) : new Uint32Array(nvert)
+    for (let i = 0; i < nvert; i++) {
+      indices[i] = i
+    }
+    writeValues(indices, 'vtktypeint64')
+  } else {
+    // per line, the number of points then the point indices
+    if (nstreamlines + nvert > 0x7fffffff) {
+      throw new Error("VTK LINES are limited to 2^31 values, use layout: 'offsets' for larger tractograms")
+    }
+    const cells = new Uint32Array(nstreamlines + nvert)
+    let p = 0
+    for (let c = 0; c < nstreamlines; c++) {
+      cells[p++] = vtk.offsetPt0[c + 1] - vtk.offsetPt0[c]
+      for (let i = vtk.offsetPt0[c]; i < vtk.offsetPt0[c + 1]; i++) {
+        cells[p++] = i
+      }
+    }
+    writeStr(`LINES ${nstreamlines} ${cells.length}\n`)
+    writeValues(cells, 'int')
+  }
+  writeAttributes('POINT_DATA', vtk.dpv, nvert)
+  writeAttributes('CELL_DATA', vtk.dps, nstreamlines)
+  let len = 0
+  for (const chunk of chunks) {
+    len += chunk.length
+  }
+  const out = new Uint8Array(len)
+  let pos = 0
+  for (const chunk of chunks) {
+    out.set(chunk, pos)
+    pos += chunk.length
+  }
+  return out
+}
 
-  const offsetPt0 = new Uint32Array(n_count + 1)
-  let pts: number[] = []
-  let npt = 0
+type VTPArray = {
+  attrs: Record<string, string>
+  content: string
+}
 
-  offsetPt0[0] = 0
-  for (let c = 0; c < n_count; c++) {
-    if (pos + 4 > len) {
-      throw new Error('Unexpected end of file when reading streamline count.')
+/**
+ * Reads a VTK XML PolyData file (.vtp) and extracts streamline data (Lines).
+ * DataArrays may be ascii, inline base64 binary or appended raw, optionally zlib compressed.
+ * @param buffer Binary buffer of the VTP file
+ * @returns Parsed streamline data `{ pts, offsetPt0, dps, dpv }`
+ */
+export async function readVTP(buffer: ArrayBuffer): Promise<VTK> {
+  const bytes = new Uint8Array(buffer)
+  // raw appended data is binary: only decode the XML before it
+  const marker = new TextEncoder().encode('<AppendedData')
+  let xmlEnd = bytes.length
+  for (let i = 0; i + marker.length <= bytes.length; i++) {
+    let isMatch = true
+    for (let j = 0; j < marker.length && isMatch; j++) {
+      isMatch = bytes[i + j] === marker[j]
     }
+    if (isMatch) {
+      xmlEnd = i
+      break
+    }
+  }
+  const xml = new TextDecoder().decode(bytes.subarray(0, xmlEnd))
+  function parseAttrs(str: string): Record<string, string> {
+    const attrs: Record<string, string> = {}
+    for (const m of str.matchAll(/([\w:]+)\s*=\s*"([^"]*)"/g)) {
+      attrs[m[1]] = m[2]
+    }
+    return attrs
+  }
+  const fileTag = xml.match(/<VTKFile\b([^>]*)>/)
+  if (!fileTag) {
+    throw new Error('Invalid VTP file')
+  }
+  const fileAttrs = parseAttrs(fileTag[1])
+  if (fileAttrs.type !== 'PolyData') {
+    throw new Error(`Only able to read VTK XML PolyData, not ${fileAttrs.type}`)
+  }
+  const isLittleEndian = fileAttrs.byte_order !== 'BigEndian'
+  const headerBytes = fileAttrs.header_type === 'UInt64' ? 8 : 4
+  const isCompressed = 'compressor' in fileAttrs
+  let appendedStart = -1
+  if (xmlEnd < bytes.length) {
+    const appendedTag = new TextDecoder().decode(bytes.subarray(xmlEnd, Math.min(xmlEnd + 256, bytes.length)))
+    const appendedAttrs = parseAttrs(appendedTag.slice(0, appendedTag.indexOf('>')))
+    if (appendedAttrs.encoding !== 'raw') {
+      throw new Error('Only able to read raw VTP AppendedData')
+    }
+    appendedStart = xmlEnd + appendedTag.indexOf('_') + 1
+  }
+  const pieces = [...xml.matchAll(/<Piece\b([^>]*)>([\s\S]*?)<\/Piece>/g)]
+  if (pieces.length !== 1) {
+    throw new Error(`Only able to read VTP files with one Piece, not ${pieces.length}`)
+  }
+  const pieceAttrs = parseAttrs(pieces[0][1])
+  for (const cellType of ['NumberOfVerts', 'NumberOfStrips', 'NumberOfPolys']) {
+    if (parseInt(pieceAttrs[cellType] ?? '0') > 0) {
+      throw new Error(`See NiiVue for VTP ${cellType} support (this library only reads Lines)`)
+    }
+  }
+  const nvert = parseInt(pieceAttrs.NumberOfPoints)
+  const nstreamlines = parseInt(pieceAttrs.NumberOfLines ?? '0')
+  const sections: Record<string, VTPArray[]> = {}
+  for (const m of pieces[0][2].matchAll(/<(PointData|CellData|Points|Lines)\b[^>]*(?<!\/)>([\s\S]*?)<\/\1>/g)) {
+    sections[m[1]] = [...m[2].matchAll(/<DataArray\b([^>]*?)(?:\/>|>([\s\S]*?)<\/DataArray>)/g)].map((a) => ({
+      attrs: parseAttrs(a[1]),
+      content: a[2] ?? ''
+    }))
+  }
 
-    const numPoints = reader.getInt32(pos, false)
-    pos += 4
-    npt += numPoints
-    offsetPt0[c + 1] = npt
+  function readHeader(view: DataView, index: number): number {
+    return headerBytes === 8
+      ? Number(view.getBigUint64(index * 8, isLittleEndian))
+      : view.getUint32(index * 4, isLittleEndian)
+  }
 
-    for (let i = 0; i < numPoints; i++) {
-      if (pos + 4 > len) {
-        throw new Error('Unexpected end of file when reading streamline points.')
+  // returns the raw little endian bytes of a binary (inline or appended) array
+  async function readBinary(array: VTPArray): Promise<Uint8Array> {
+    let data: Uint8Array
+    let pos = 0
+    if (array.attrs.format === 'appended') {
+      data = bytes
+      pos = appendedStart + parseInt(array.attrs.offset)
+      if (appendedStart < 0) {
+        throw new Error('VTP DataArray refers to missing AppendedData')
       }
+    } else {
+      const b64 = array.content.replace(/\s/g, '')
+      if (!isCompressed) {
+        data = NVUtilities.b64toUint8(b64)
+      } else {
+        // compressed headers are encoded separately from the compressed blocks
+        const nBlocks = readHeader(new DataView(NVUtilities.b64toUint8(b64.slice(0, 16)).buffer), 0)
+        const headerChars = Math.ceil(((3 + nBlocks) * headerBytes) / 3) * 4
+        const hdr = NVUtilities.b64toUint8(b64.slice(0, headerChars))
+        const blocks = NVUtilities.b64toUint8(b64.slice(headerChars))
+        data = new Uint8Array(hdr.length + blocks.length)
+        data.set(hdr)
+        data.set(blocks, hdr.length)
+      }
+    }
+    const view = new DataView(data.buffer, data.byteOffset + pos)
+    if (!isCompressed) {
+      const nbytes = readHeader(view, 0)
+      return data.slice(pos + headerBytes, pos + headerBytes + nbytes)
+    }
+    const nBlocks = readHeader(view, 0)
+    const blockSize = readHeader(view, 1)
+    const lastBlockSize = readHeader(view, 2)
+    const nbytes = nBlocks > 0 ? (nBlocks - 1) * blockSize + (lastBlockSize || blockSize) : 0
+    const out = new Uint8Array(nbytes)
+    let src = pos + (3 + nBlocks) * headerBytes
+    let dst = 0
+    for (let b = 0; b < nBlocks; b++) {
+      const compressedSize = readHeader(view, 3 + b)
+      const block = await NVUtilities.decompress(data.subarray(src, src + compressedSize))
+      out.set(block, dst)
+      dst += block.length
+      src += compressedSize
+    }
+    return out
+  }
 
-      const idx = reader.getInt32(pos, false) * 3
-      pos += 4
-
-      if (idx + 2 >= nvert3) {
-        throw new Error(`Index out of bounds: ${idx} (max ${nvert3})`)
+  async function readArray(array: VTPArray): Promise<Float32Array | Float64Array> {
+    const type = array.attrs.type
+    if (array.attrs.format === 'ascii') {
+      const tokens = array.content.trim().split(/\s+/)
+      const vals = type === 'Float32' ? new Float32Array(tokens.length) : new Float64Array(tokens.length)
+      for (let i = 0; i < tokens.length; i++) {
+        vals[i] = parseFloat(tokens[i])
+      }
+      return vals
+    }
+    const raw = await readBinary(array)
+    const bytesPerValue = parseInt(type.replace(/\D/g, '')) / 8
+    if (!isLittleEndian && bytesPerValue > 1) {
+      for (let i = 0; i < raw.length; i += bytesPerValue) {
+        raw.subarray(i, i + bytesPerValue).reverse()
       }
+    }
+    const buf = raw.buffer
+    if (type === 'Float32') {
+      return new Float32Array(buf)
+    }
+    if (type === 'Float64') {
+      return new Float64Array(buf)
+    }
+    if (type === 'Int64' || type === 'UInt64') {
+      // JavaScript numbers are exact up to 2^53
+      const u32 = new Uint32Array(buf)
+      const vals = new Float64Array(u32.length / 2)
+      for (let i = 0; i < vals.length; i++) {
+        const hi = type === 'Int64' ? u32[i * 2 + 1] | 0 : u32[i * 2 + 1]
+        vals[i] = hi * 4294967296 + u32[i * 2]
+      }
+      return vals
+    }
+    const ctor = {
+      Int8: Int8Array,
+      UInt8: Uint8Array,
+      Int16: Int16Array,
+      UInt16: Uint16Array,
+      Int32: Int32Array,
+      UInt32: Uint32Array
+    }[type]
+    if (!ctor) {
+      throw new Error(`Unsupported VTP data type: ${type}`)
+    }
+    return Float64Array.from(new ctor(buf))
+  }
 
-      pts.push(positions[idx], positions[idx + 1], positions[idx + 2])
+  const points = sections.Points?.[0]
+  const lines = sections.Lines ?? []
+  const connectivity = lines.find((a) => a.attrs.Name === 'connectivity')
+  const offsets = lines.find((a) => a.attrs.Name === 'offsets')
+  if (!points || !connectivity || !offsets) {
+    throw new Error('VTP file must have Points and Lines')
+  }
+  const ptsArray = await readArray(points)
+  const positions = ptsArray instanceof Float32Array ? ptsArray : Float32Array.from(ptsArray)
+  const connArray = await readArray(connectivity)
+  const indices = connArray instanceof Float64Array ? connArray : Float64Array.from(connArray)
+  // VTP offsets are the end of each line: add the start of the first line
+  const ends = await readArray(offsets)
+  const isOverflowUint32 = nstreamlines > 0 && ends[nstreamlines - 1] > 0xffffffff
+  const offsetPt0 = isOverflowUint32 ? new Float64Array(nstreamlines + 1) : new Uint32Array(nstreamlines + 1)
+  offsetPt0.set(ends.subarray(0, nstreamlines), 1)
+  const dpv: ValuesArray = []
+  const dps: ValuesArray = []
+  for (const [section, items, n] of [
+    ['PointData', dpv, nvert],
+    ['CellData', dps, nstreamlines]
+  ] as Array<[string, ValuesArray, number]>) {
+    for (const array of sections[section] ?? []) {
+      const vals = await readArray(array)
+      const nComponents = parseInt(array.attrs.NumberOfComponents ?? '1')
+      if (vals.length !== n * nComponents) {
+        throw new Error(`VTP ${section} '${array.attrs.Name}' has ${vals.length} values, expected ${n * nComponents}`)
+      }
+      items.push({
+        id: array.attrs.Name ?? `${section}${items.length}`,
+        vals: vals instanceof Float32Array ? vals : Float32Array.from(vals),
+        nComponents
+      })
     }
   }
+  return gatherLines(positions, indices, offsetPt0, dps, dpv)
+}
 
-  return { pts: new Float32Array(pts), offsetPt0 }
+/**
+ * Writes streamlines as a VTK XML PolyData file (.vtp).
+ * dpv and dps are saved as PointData and CellData arrays.
+ * @param vtk streamlines to save, offsetPt0 must include the fence post
+ * @param options `appended` stores raw AppendedData rather than inline base64 arrays
+ * @returns Bytes of the VTP file
+ */
+export function writeVTP(vtk: VTK, options: VTPWriteOptions = {}): Uint8Array {
+  const { appended = false } = options
+  const nvert = vtk.pts.length / 3
+  const nstreamlines = vtk.offsetPt0.length - 1
+  if (nstreamlines < 0 || vtk.offsetPt0[nstreamlines] !== nvert) {
+    throw new Error('VTP offsetPt0 must end with the number of vertices (fence post)')
+  }
+  const blocks: Uint8Array[] = []
+  let appendedOffset = 0
+  // each binary array is preceded by its length in bytes (header_type UInt64)
+  function dataArray(attrs: string, vals: Float32Array | Offsets, isInt64: boolean = false): string {
+    const bytesPerValue = isInt64 ? 8 : 4
+    const block = new Uint8Array(8 + vals.length * bytesPerValue)
+    const view = new DataView(block.buffer)
+    view.setBigUint64(0, BigInt(vals.length * bytesPerValue), true)
+    if (isInt64) {
+      const u32 = new Uint32Array(block.buffer, 8)
+      for (let i = 0; i < vals.length; i++) {
+        const hi = Math.floor(vals[i] / 4294967296)
+        u32[i * 2] = vals[i] - hi * 4294967296
+        u32[i * 2 + 1] = hi
+      }
+    } else {
+      block.set(new Uint8Array(vals.buffer, vals.byteOffset, vals.byteLength), 8)
+    }
+    if (appended) {
+      blocks.push(block)
+      const xml = `<DataArray ${attrs} format="appended" offset="${appendedOffset}"/>\n`
+      appendedOffset += block.length
+      return xml
+    }
+    return `<DataArray ${attrs} format="binary">${NVUtilities.uint8tob64(block)}</DataArray>\n`
+  }
+  function escapeName(id: string): string {
+    return id.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;')
+  }
+  function dataArrays(items: ValuesArray, n: number): string {
+    let xml = ''
+    for (const item of items) {
+      const nComponents = nComponentsOf(item, n)
+      const vals = item.vals instanceof Float32Array ? item.vals : Float32Array.from(item.vals)
+      xml += dataArray(`type="Float32" Name="${escapeName(item.id)}" NumberOfComponents="${nComponents}"`, vals)
+    }
+    return xml
+  }
+  const connectivity = nvert > 0xffffffff ? new Float64Array(nvert) : new Uint32Array(nvert)
+  for (let i = 0; i < nvert; i++) {
+    connectivity[i] = i
+  }
+  let xml = '<?xml version="1.0"?>\n'
+  xml += `<VTKFile type="PolyData" version="1.0" byte_order="LittleEndian" header_type="UInt64">\n<PolyData>\n`
+  xml += `<Piece NumberOfPoints="${nvert}" NumberOfVerts="0" NumberOfLines="${nstreamlines}" NumberOfStrips="0" NumberOfPolys="0">\n`
+  xml += `<PointData>\n${dataArrays(vtk.dpv, nvert)}</PointData>\n`
+  xml += `<CellData>\n${dataArrays(vtk.dps, nstreamlines)}</CellData>\n`
+  xml += `<Points>\n${dataArray('type="Float32" NumberOfComponents="3"', vtk.pts)}</Points>\n`
+  xml += '<Lines>\n'
+  xml += dataArray('type="Int64" Name="connectivity"', connectivity, true)
+  xml += dataArray('type="Int64" Name="offsets"', vtk.offsetPt0.subarray(1), true)
+  xml += '</Lines>\n</Piece>\n</PolyData>\n'
+  const encoder = new TextEncoder()
+  if (!appended) {
+    return encoder.encode(xml + '</VTKFile>\n')
+  }
+  const head = encoder.encode(xml + '<AppendedData encoding="raw">\n_')
+  const tail = encoder.encode('\n</AppendedData>\n</VTKFile>\n')
+  const out = new Uint8Array(head.length + appendedOffset + tail.length)
+  out.set(head)
+  let pos = head.length
+  for (const block of blocks) {
+    out.set(block, pos)
+    pos += block.length
+  }
+  out.set(tail, pos)
+  return out
 }
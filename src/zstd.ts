@@ -0,0 +1,620 @@
+/**
+ * Zstandard decompression without dependencies, for TRK.zst files and zstd compressed zip entries
+ * Supports all frame and block types, but not dictionaries. Content checksums are not verified.
+ * https://www.rfc-editor.org/rfc/rfc8878
+ */
+
+const ZSTD_MAGIC = 0xfd2fb528
+
+// literals length codes 16..35 and match length codes 32..52: baseline and number of extra bits
+const LL_BASELINE = [
+  0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16, 18, 20, 22, 24, 28, 32, 40, 48, 64, 128, 256, 512, 1024,
+  2048, 4096, 8192, 16384, 32768, 65536
+]
+const LL_BITS = [
+  0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 3, 3, 4, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16
+]
+const ML_BASELINE = [
+  3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16, 17, 18, 19, 20, 21, 22, 23, 24, 25, 26, 27, 28, 29, 30, 31, 32, 33,
+  34, 35, 37, 39, 41, 43, 47, 51, 59, 67, 83, 99, 131, 259, 515, 1027, 2051, 4099, 8195, 16387, 32771, 65539
+]
+const ML_BITS = [
+  0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 3,
+  3, 4, 4, 5, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16
+]
+
+// predefined distributions, used when a block does not describe its own
+const LL_DEFAULT = [
+  4, 3, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 1, 1, 1, 2, 2, 2, 2, 2, 2, 2, 2, 2, 3, 2, 1, 1, 1, 1, 1, -1, -1, -1, -1
+]
+const ML_DEFAULT = [
+  1, 4, 3, 2, 2, 2, 2, 2, 2, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1,
+  1, 1, 1, 1, 1, 1, 1, -1, -1, -1, -1, -1, -1, -1
+]
+const OF_DEFAULT = [1, 1, 1, 1, 1, 1, 2, 2, 2, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, -1, -1, -1, -1, -1]
+
+type FSETable = {
+  accuracyLog: number
+  symbol: Uint8Array
+  nbBits: Uint8Array
+  baseline: Uint16Array
+}
+
+type HuffmanTable = {
+  maxBits: number
+  symbol: Uint8Array
+  nbBits: Uint8Array
+}
+
+function highBit(v: number): number {
+  return 31 - Math.clz32(v)
+}
+
+// bits are read from the end of a stream towards its start, reading before the start returns zeros
+class BackwardBitReader {
+  #data: Uint8Array
+  #start: number
+  pos: number // number of bits not yet read
+
+  constructor(data: Uint8Array, start: number, end: number) {
+    this.#data = data
+    this.#start = start
+    const last = end > start ? data[end - 1] : 0
+    if (last === 0) {
+      throw new Error('zstd bitstream is missing its end marker')
+    }
+    // the highest set bit of the final byte marks the end of the stream
+    this.pos = (end - 1 - start) * 8 + highBit(last)
+  }
+
+  #byte(i: number): number {
+    return i >= 0 && this.#start + i < this.#data.length ? this.#data[this.#start + i] : 0
+  }
+
+  // n (<= 25) bits starting at bit position pos
+  #bits(pos: number, n: number): number {
+    const i = pos >> 3
+    const word =
+      (this.#byte(i) | (this.#byte(i + 1) << 8) | (this.#byte(i + 2) << 16) | (this.#byte(i + 3) << 24)) >>> 0
+    return (word >>> (pos & 7)) & ((1 << n) - 1)
+  }
+
+  peek(n: number): number {
+    return n === 0 ? 0 : this.#bits(this.pos - n, n)
+  }
+
+  read(n: number): number {
+    if (n === 0) {
+      return 0
+    }
+    this.pos -= n
+    if (n > 24) {
+      return this.#bits(this.pos, 16) + this.#bits(this.pos + 16, n - 16) * 65536
+    }
+    return this.#bits(this.pos, n)
+  }
+}
+
+// FSE table description: returns the table and the number of bytes read
+function readFSETable(
+  data: Uint8Array,
+  offset: number,
+  maxAccuracyLog: number,
+  maxSymbols: number
+): [FSETable, number] {
+  let bitPos = 0
+  function read(n: number): number {
+    let v = 0
+    for (let i = 0; i < n; i++, bitPos++) {
+      const byte = offset + (bitPos >> 3)
+      if (byte >= data.length) {
+        throw new Error('zstd FSE table description is truncated')
+      }
+      v |= ((data[byte] >> (bitPos & 7)) & 1) << i
+    }
+    return v
+  }
+  function peek(n: number): number {
+    const pos = bitPos
+    const v = read(n)
+    bitPos = pos
+    return v
+  }
+  const accuracyLog = read(4) + 5
+  if (accuracyLog > maxAccuracyLog) {
+    throw new Error(`zstd FSE accuracy log ${accuracyLog} exceeds ${maxAccuracyLog}`)
+  }
+  const probabilities: number[] = []
+  let remaining = (1 << accuracyLog) + 1
+  let threshold = 1 << accuracyLog
+  let nbBits = accuracyLog + 1
+  let previous0 = false
+  while (remaining > 1 && probabilities.length < maxSymbols) {
+    if (previous0) {
+      // 2-bit flags repeat the zero probability
+      let repeat = read(2)
+      while (repeat === 3) {
+        probabilities.push(0, 0, 0)
+        repeat = read(2)
+      }
+      for (let i = 0; i < repeat; i++) {
+        probabilities.push(0)
+      }
+      if (probabilities.length >= maxSymbols) {
+        break
+      }
+    }
+    // small values use one less bit
+    const max = 2 * threshold - 1 - remaining
+    let count: number
+    const low = peek(nbBits - 1)
+    if (low < max) {
+      count = low
+      read(nbBits - 1)
+    } else {
+      count = read(nbBits)
+      if (count >= threshold) {
+        count -= max
+      }
+    }
+    count-- // -1 is a "less than 1" probability
+    remaining -= Math.abs(count)
+    probabilities.push(count)
+    previous0 = count === 0
+    while (remaining < threshold) {
+      nbBits--
+      threshold >>= 1
+    }
+  }
+  if (remaining !== 1 || probabilities.length > maxSymbols) {
+    throw new Error('zstd FSE table description is corrupt')
+  }
+  return [buildFSETable(probabilities, accuracyLog), Math.ceil(bitPos / 8)]
+}
+
+function buildFSETable(probabilities: number[], accuracyLog: number): FSETable {
+  const size = 1 << accuracyLog
+  const symbol = new Uint8Array(size)
+  const nbBits = new Uint8Array(size)
+  const baseline = new Uint16Array(size)
+  const next: number[] = []
+  // "less than 1" probabilities are placed at the end of the table
+  let highThreshold = size - 1
+  for (let s = 0; s < probabilities.length; s++) {
+    if (probabilities[s] === -1) {
+      symbol[highThreshold--] = s
+      next[s] = 1
+    } else {
+      next[s] = probabilities[s]
+    }
+  }
+  const step = (size >> 1) + (size >> 3) + 3
+  const mask = size - 1
+  let position = 0
+  for (let s = 0; s < probabilities.length; s++) {
+    for (let i = 0; i < probabilities[s]; i++) {
+      symbol[position] = s
+      do {
+        position = (position + step) & mask
+      } while (position > highThreshold)
+    }
+  }
+  if (position !== 0) {
+    throw new Error('zstd FSE table is corrupt')
+  }
+  for (let u = 0; u < size; u++) {
+    const state = next[symbol[u]]++
+    nbBits[u] = accuracyLog - highBit(state)
+    baseline[u] = (state << nbBits[u]) - size
+  }
+  return { accuracyLog, symbol, nbBits, baseline }
+}
+
+// table of a single symbol, for RLE mode
+function rleFSETable(s: number): FSETable {
+  return { accuracyLog: 0, symbol: Uint8Array.of(s), nbBits: Uint8Array.of(0), baseline: Uint16Array.of(0) }
+}
+
+// Huffman tree description: returns the table and the number of bytes read
+function readHuffmanTable(data: Uint8Array, offset: number): [HuffmanTable, number] {
+  const header = data[offset]
+  const weights: number[] = []
+  let size: number
+  if (header < 128) {
+    // weights are FSE compressed, decoded with two interleaved states
+    size = 1 + header
+    const [table, tableSize] = readFSETable(data, offset + 1, 6, 256)
+    const reader = new BackwardBitReader(data, offset + 1 + tableSize, offset + size)
+    let state1 = reader.read(table.accuracyLog)
+    let state2 = reader.read(table.accuracyLog)
+    while (weights.length < 255) {
+      weights.push(table.symbol[state1])
+      state1 = table.baseline[state1] + reader.read(table.nbBits[state1])
+      if (reader.pos < 0) {
+        weights.push(table.symbol[state2])
+        break
+      }
+      weights.push(table.symbol[state2])
+      state2 = table.baseline[state2] + reader.read(table.nbBits[state2])
+      if (reader.pos < 0) {
+        weights.push(table.symbol[state1])
+        break
+      }
+    }
+  } else {
+    // 4-bit weights, two per byte
+    const n = header - 127
+    size = 1 + Math.ceil(n / 2)
+    for (let i = 0; i < n; i++) {
+      const byte = data[offset + 1 + (i >> 1)]
+      weights.push(i & 1 ? byte & 15 : byte >> 4)
+    }
+  }
+  // the weight of the final symbol is implied: the total must be a power of 2
+  let total = 0
+  for (const w of weights) {
+    total += w > 0 ? 1 << (w - 1) : 0
+  }
+  if (total === 0) {
+    throw new Error('zstd Huffman weights are corrupt')
+  }
+  const maxBits = highBit(total) + 1
+  const rest = (1 << maxBits) - total
+  if (rest & (rest - 1) || maxBits > 11) {
+    throw new Error('zstd Huffman weights are corrupt')
+  }
+  weights.push(highBit(rest) + 1)
+  // codes are assigned by increasing weight, then by symbol
+  const tableSize = 1 << maxBits
+  const symbol = new Uint8Array(tableSize)
+  const nbBits = new Uint8Array(tableSize)
+  const rankStart = new Array(maxBits + 2).fill(0)
+  for (const w of weights) {
+    if (w > 0) {
+      rankStart[w + 1] += 1 << (w - 1)
+    }
+  }
+  for (let w = 2; w <= maxBits + 1; w++) {
+    rankStart[w] += rankStart[w - 1]
+  }
+  for (let s = 0; s < weights.length; s++) {
+    const w = weights[s]
+    if (w === 0) {
+      continue
+    }
+    const n = 1 << (w - 1)
+    const start = rankStart[w]
+    symbol.fill(s, start, start + n)
+    nbBits.fill(maxBits + 1 - w, start, start + n)
+    rankStart[w] += n
+  }
+  return [{ maxBits, symbol, nbBits }, size]
+}
+
+function decodeHuffmanStream(
+  table: HuffmanTable,
+  data: Uint8Array,
+  start: number,
+  end: number,
+  out: Uint8Array,
+  outStart: number,
+  outEnd: number
+): void {
+  const reader = new BackwardBitReader(data, start, end)
+  for (let i = outStart; i < outEnd; i++) {
+    const index = reader.peek(table.maxBits)
+    out[i] = table.symbol[index]
+    reader.pos -= table.nbBits[index]
+  }
+  if (reader.pos !== 0) {
+    throw new Error('zstd Huffman stream is corrupt')
+  }
+}
+
+// state that persists between the blocks of a frame
+type FrameState = {
+  huffman: HuffmanTable | null
+  literalsLength: FSETable | null
+  offset: FSETable | null
+  matchLength: FSETable | null
+  repeatOffsets: number[]
+}
+
+// growable output buffer, matches copy from data already written
+class Output {
+  bytes: Uint8Array
+  length = 0
+
+  constructor(capacity: number) {
+    this.bytes = new Uint8Array(Math.max(capacity, 1024))
+  }
+
+  reserve(n: number): void {
+    if (this.length + n > this.bytes.length) {
+      const bytes = new Uint8Array(Math.max(this.length + n, this.bytes.length * 2))
+      bytes.set(this.bytes.subarray(0, this.length))
+      this.bytes = bytes
+    }
+  }
+
+  write(data: Uint8Array): void {
+    this.reserve(data.length)
+    this.bytes.set(data, this.length)
+    this.length += data.length
+  }
+}
+
+function decodeLiterals(data: Uint8Array, offset: number, frame: FrameState): [Uint8Array, number] {
+  const type = data[offset] & 3
+  const sizeFormat = (data[offset] >> 2) & 3
+  if (type < 2) {
+    // raw or RLE literals
+    let size: number
+    let headerSize: number
+    if ((sizeFormat & 1) === 0) {
+      size = data[offset] >> 3
+      headerSize = 1
+    } else if (sizeFormat === 1) {
+      size = (data[offset] >> 4) + (data[offset + 1] << 4)
+      headerSize = 2
+    } else {
+      size = (data[offset] >> 4) + (data[offset + 1] << 4) + (data[offset + 2] << 12)
+      headerSize = 3
+    }
+    if (type === 0) {
+      return [data.subarray(offset + headerSize, offset + headerSize + size), headerSize + size]
+    }
+    return [new Uint8Array(size).fill(data[offset + headerSize]), headerSize + 1]
+  }
+  // Huffman compressed literals, treeless (type 3) reuses the previous table
+  let regeneratedSize: number
+  let compressedSize: number
+  let headerSize: number
+  const isSingleStream = sizeFormat === 0
+  const b = data.subarray(offset, offset + 5)
+  if (sizeFormat < 2) {
+    const h = b[0] | (b[1] << 8) | (b[2] << 16)
+    regeneratedSize = (h >> 4) & 0x3ff
+    compressedSize = (h >> 14) & 0x3ff
+    headerSize = 3
+  } else if (sizeFormat === 2) {
+    const h = (b[0] | (b[1] << 8) | (b[2] << 16) | (b[3] << 24)) >>> 0
+    regeneratedSize = (h >>> 4) & 0x3fff
+    compressedSize = h >>> 18
+    headerSize = 4
+  } else {
+    const h = (b[0] | (b[1] << 8) | (b[2] << 16) | (b[3] << 24)) >>> 0
+    regeneratedSize = (h >>> 4) & 0x3ffff
+    compressedSize = (h >>> 22) + (b[4] << 10)
+    headerSize = 5
+  }
+  let start = offset + headerSize
+  const end = start + compressedSize
+  if (type === 2) {
+    const [table, tableSize] = readHuffmanTable(data, start)
+    frame.huffman = table
+    start += tableSize
+  } else if (!frame.huffman) {
+    throw new Error('zstd treeless literals without a previous Huffman table')
+  }
+  const literals = new Uint8Array(regeneratedSize)
+  if (isSingleStream) {
+    decodeHuffmanStream(frame.huffman!, data, start, end, literals, 0, regeneratedSize)
+  } else {
+    // jump table of the sizes of the first three streams
+    const sizes = [data[start] | (data[start + 1] << 8), data[start + 2] | (data[start + 3] << 8)]
+    sizes.push(data[start + 4] | (data[start + 5] << 8))
+    const segment = Math.ceil(regeneratedSize / 4)
+    let streamStart = start + 6
+    for (let i = 0; i < 4; i++) {
+      const streamEnd = i < 3 ? streamStart + sizes[i] : end
+      const outStart = i * segment
+      const outEnd = i < 3 ? outStart + segment : regeneratedSize
+      decodeHuffmanStream(frame.huffman!, data, streamStart, streamEnd, literals, outStart, outEnd)
+      streamStart = streamEnd
+    }
+  }
+  return [literals, headerSize + compressedSize]
+}
+
+function decodeCompressedBlock(data: Uint8Array, start: number, end: number, frame: FrameState, out: Output): void {
+  const [literals, literalsSize] = decodeLiterals(data, start, frame)
+  let pos = start + literalsSize
+  let nSequences = data[pos++]
+  if (nSequences >= 255) {
+    nSequences = data[pos] + (data[pos + 1] << 8) + 0x7f00
+    pos += 2
+  } else if (nSequences >= 128) {
+    nSequences = ((nSequences - 128) << 8) + data[pos++]
+  }
+  if (nSequences === 0) {
+    out.write(literals)
+    return
+  }
+  const modes = data[pos++]
+  function readTable(
+    mode: number,
+    previous: FSETable | null,
+    defaults: number[],
+    defaultLog: number,
+    maxLog: number,
+    maxSymbols: number
+  ): FSETable {
+    if (mode === 0) {
+      return buildFSETable(defaults, defaultLog)
+    } else if (mode === 1) {
+      return rleFSETable(data[pos++])
+    } else if (mode === 2) {
+      const [table, size] = readFSETable(data, pos, maxLog, maxSymbols)
+      pos += size
+      return table
+    }
+    if (!previous) {
+      throw new Error('zstd repeat mode without a previous table')
+    }
+    return previous
+  }
+  frame.literalsLength = readTable(modes >> 6, frame.literalsLength, LL_DEFAULT, 6, 9, 36)
+  frame.offset = readTable((modes >> 4) & 3, frame.offset, OF_DEFAULT, 5, 8, 32)
+  frame.matchLength = readTable((modes >> 2) & 3, frame.matchLength, ML_DEFAULT, 6, 9, 53)
+  const ll = frame.literalsLength
+  const of = frame.offset
+  const ml = frame.matchLength
+  const reader = new BackwardBitReader(data, pos, end)
+  let llState = reader.read(ll.accuracyLog)
+  let ofState = reader.read(of.accuracyLog)
+  let mlState = reader.read(ml.accuracyLog)
+  const rep = frame.repeatOffsets
+  let literalPos = 0
+  for (let s = 0; s < nSequences; s++) {
+    const ofCode = of.symbol[ofState]
+    const mlCode = ml.symbol[mlState]
+    const llCode = ll.symbol[llState]
+    if (llCode > 35 || mlCode > 52 || ofCode > 31) {
+      throw new Error('zstd sequence is corrupt')
+    }
+    // extra bits are read in the order offset, match length, literals length
+    const offsetValue = 2 ** ofCode + reader.read(ofCode)
+    const matchLength = ML_BASELINE[mlCode] + reader.read(ML_BITS[mlCode])
+    const literalsLength = LL_BASELINE[llCode] + reader.read(LL_BITS[llCode])
+    let offset: number
+    if (offsetValue > 3) {
+      offset = offsetValue - 3
+      rep[2] = rep[1]
+      rep[1] = rep[0]
+      rep[0] = offset
+    } else {
+      // repeat offsets, shifted by one if there are no literals
+      const index = offsetValue - 1 + (literalsLength === 0 ? 1 : 0)
+      if (index === 0) {
+        offset = rep[0]
+      } else {
+        offset = index === 3 ? rep[0] - 1 : rep[index]
+        if (index !== 1) {
+          rep[2] = rep[1]
+        }
+        rep[1] = rep[0]
+        rep[0] = offset
+      }
+    }
+    if (s < nSequences - 1) {
+      // states are updated in the order literals length, match length, offset
+      llState = ll.baseline[llState] + reader.read(ll.nbBits[llState])
+      mlState = ml.baseline[mlState] + reader.read(ml.nbBits[mlState])
+      ofState = of.baseline[ofState] + reader.read(of.nbBits[ofState])
+    }
+    if (literalPos + literalsLength > literals.length) {
+      throw new Error('zstd sequence uses more literals than decoded')
+    }
+    out.write(literals.subarray(literalPos, literalPos + literalsLength))
+    literalPos += literalsLength
+    if (offset < 1 || offset > out.length) {
+      throw new Error(`zstd match offset ${offset} is beyond the decoded data`)
+    }
+    out.reserve(matchLength)
+    const bytes = out.bytes
+    let src = out.length - offset
+    let dst = out.length
+    if (offset >= matchLength) {
+      bytes.copyWithin(dst, src, src + matchLength)
+    } else {
+      // overlapping copy repeats the most recent bytes
+      for (let i = 0; i < matchLength; i++) {
+        bytes[dst++] = bytes[src++]
+      }
+    }
+    out.length += matchLength
+  }
+  if (reader.pos !== 0) {
+    throw new Error('zstd sequence bitstream is corrupt')
+  }
+  out.write(literals.subarray(literalPos))
+}
+
+export function isZstd(data: Uint8Array): boolean {
+  return data.length >= 4 && (data[0] | (data[1] << 8) | (data[2] << 16) | (data[3] << 24)) >>> 0 === ZSTD_MAGIC
+}
+
+export function decompressZstd(data: Uint8Array): Uint8Array {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+  const out = new Output(data.length * 4)
+  let pos = 0
+  while (pos + 4 <= data.length) {
+    const magic = view.getUint32(pos, true)
+    pos += 4
+    if ((magic & 0xfffffff0) === 0x184d2a50) {
+      // skippable frame
+      pos += 4 + view.getUint32(pos, true)
+      continue
+    }
+    if (magic !== ZSTD_MAGIC) {
+      throw new Error('Not a zstd frame')
+    }
+    const descriptor = data[pos++]
+    const contentSizeFlag = descriptor >> 6
+    const isSingleSegment = (descriptor & 0x20) !== 0
+    const hasChecksum = (descriptor & 0x04) !== 0
+    const dictionaryIdFlag = descriptor & 3
+    if (!isSingleSegment) {
+      pos++ // window descriptor: the whole output is kept, so the window size is not needed
+    }
+    const dictionaryIdSize = [0, 1, 2, 4][dictionaryIdFlag]
+    let dictionaryId = 0
+    for (let i = 0; i < dictionaryIdSize; i++) {
+      dictionaryId += data[pos + i] * 2 ** (8 * i)
+    }
+    if (dictionaryId !== 0) {
+      throw new Error('zstd dictionaries are not supported')
+    }
+    pos += dictionaryIdSize
+    const contentSizeBytes = [isSingleSegment ? 1 : 0, 2, 4, 8][contentSizeFlag]
+    let contentSize = 0
+    for (let i = 0; i < contentSizeBytes; i++) {
+      contentSize += data[pos + i] * 2 ** (8 * i)
+    }
+    if (contentSizeBytes === 2) {
+      contentSize += 256
+    }
+    pos += contentSizeBytes
+    out.reserve(contentSize)
+    const frame: FrameState = {
+      huffman: null,
+      literalsLength: null,
+      offset: null,
+      matchLength: null,
+      repeatOffsets: [1, 4, 8]
+    }
+    let isLastBlock = false
+    while (!isLastBlock) {
+      if (pos + 3 > data.length) {
+        throw new Error('zstd data is truncated')
+      }
+      const header = data[pos] | (data[pos + 1] << 8) | (data[pos + 2] << 16)
+      pos += 3
+      isLastBlock = (header & 1) !== 0
+      const type = (header >> 1) & 3
+      const size = header >> 3
+      if (type === 0) {
+        out.write(data.subarray(pos, pos + size))
+        pos += size
+      } else if (type === 1) {
+        out.reserve(size)
+        out.bytes.fill(data[pos], out.length, out.length + size)
+        out.length += size
+        pos += 1
+      } else if (type === 2) {
+        if (pos + size > data.length) {
+          throw new Error('zstd data is truncated')
+        }
+        decodeCompressedBlock(data, pos, pos + size, frame, out)
+        pos += size
+      } else {
+        throw new Error('zstd block type is reserved')
+      }
+    }
+    if (hasChecksum) {
+      pos += 4
+    }
+  }
+  return out.bytes.slice(0, out.length)
+}